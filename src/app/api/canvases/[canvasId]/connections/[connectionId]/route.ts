@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  checkCanvasApiEnabled,
+  jsonError,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { updateConnectionSchema } from '@/lib/validations'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string; connectionId: string }>
+}
+
+/**
+ * Change a connection's label, color or style
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, connectionId } = await params
+  const body = await parseBody(request, updateConnectionSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      const connection = current.connections.find(conn => conn.id === connectionId)
+      if (!connection) return jsonError('Connection not found', 404)
+
+      // Connections are replaced rather than updated in place
+      return [
+        { type: 'deleteConnection', id: connectionId },
+        { type: 'addConnection', connection: { ...connection, ...body.data } },
+      ]
+    })
+    if (canvas instanceof NextResponse) return canvas
+
+    return NextResponse.json(canvas.connections.find(conn => conn.id === connectionId))
+  } catch (error) {
+    return serverError(error, 'Failed to update connection')
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, connectionId } = await params
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      if (!current.connections.some(conn => conn.id === connectionId)) {
+        return jsonError('Connection not found', 404)
+      }
+      return [{ type: 'deleteConnection', id: connectionId }]
+    })
+    return canvas instanceof NextResponse ? canvas : new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return serverError(error, 'Failed to delete connection')
+  }
+}
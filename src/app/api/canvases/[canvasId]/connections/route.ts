@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Connection } from '@/types'
+import {
+  checkCanvasApiEnabled,
+  getNodeIds,
+  jsonError,
+  loadStoredCanvas,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { createConnectionSchema } from '@/lib/validations'
+import { generateId } from '@/lib/utils'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+
+  try {
+    const canvas = await loadStoredCanvas(canvasId)
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(canvas.connections)
+  } catch (error) {
+    return serverError(error, 'Failed to load connections')
+  }
+}
+
+/**
+ * Connect two links or groups by id
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+  const body = await parseBody(request, createConnectionSchema)
+  if ('response' in body) return body.response
+
+  const { sourceId, targetId } = body.data
+  if (sourceId === targetId) {
+    return jsonError('A connection needs two different endpoints', 400)
+  }
+
+  const connection: Connection = { id: generateId(), ...body.data }
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      const nodeIds = getNodeIds(current)
+      const missing = [sourceId, targetId].filter(id => !nodeIds.has(id))
+      if (missing.length > 0) {
+        return jsonError('Connection endpoints not found', 400, { missing })
+      }
+      return [{ type: 'addConnection', connection }]
+    })
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(connection, { status: 201 })
+  } catch (error) {
+    return serverError(error, 'Failed to create connection')
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  checkCanvasApiEnabled,
+  jsonError,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { updateGroupSchema } from '@/lib/validations'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string; groupId: string }>
+}
+
+/**
+ * Rename, recolor, move or resize a group
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, groupId } = await params
+  const body = await parseBody(request, updateGroupSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      if (!(current.groups || []).some(g => g.id === groupId)) return jsonError('Group not found', 404)
+      return [{ type: 'updateGroup', id: groupId, updates: body.data }]
+    })
+    if (canvas instanceof NextResponse) return canvas
+
+    return NextResponse.json((canvas.groups || []).find(g => g.id === groupId))
+  } catch (error) {
+    return serverError(error, 'Failed to update group')
+  }
+}
+
+/**
+ * Delete a group along with its connections. Links inside it are kept.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, groupId } = await params
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      if (!(current.groups || []).some(g => g.id === groupId)) return jsonError('Group not found', 404)
+      return [{ type: 'deleteGroup', id: groupId }]
+    })
+    return canvas instanceof NextResponse ? canvas : new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return serverError(error, 'Failed to delete group')
+  }
+}
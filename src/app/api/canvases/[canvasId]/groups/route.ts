@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Group } from '@/types'
+import {
+  checkCanvasApiEnabled,
+  loadStoredCanvas,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { addGroupSchema } from '@/lib/validations'
+import { generateId } from '@/lib/utils'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+
+  try {
+    const canvas = await loadStoredCanvas(canvasId)
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(canvas.groups || [])
+  } catch (error) {
+    return serverError(error, 'Failed to load groups')
+  }
+}
+
+/**
+ * Create a group. Position and size default to those of the editor's group dialog.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+  const body = await parseBody(request, addGroupSchema)
+  if ('response' in body) return body.response
+
+  const group: Group = {
+    id: `group-${generateId()}`,
+    name: body.data.name,
+    color: body.data.color || '#FF4F00',
+    x: body.data.x ?? 100,
+    y: body.data.y ?? 100,
+    width: body.data.width ?? 400,
+    height: body.data.height ?? 300,
+  }
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, () => [{ type: 'addGroup', group }])
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(group, { status: 201 })
+  } catch (error) {
+    return serverError(error, 'Failed to create group')
+  }
+}
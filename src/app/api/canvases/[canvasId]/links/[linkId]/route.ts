@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  checkCanvasApiEnabled,
+  jsonError,
+  loadStoredCanvas,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { updateLinkSchema } from '@/lib/validations'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string; linkId: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, linkId } = await params
+
+  try {
+    const canvas = await loadStoredCanvas(canvasId)
+    if (canvas instanceof NextResponse) return canvas
+
+    const link = canvas.links.find(l => l.id === linkId)
+    return link ? NextResponse.json(link) : jsonError('Link not found', 404)
+  } catch (error) {
+    return serverError(error, 'Failed to load link')
+  }
+}
+
+/**
+ * Move, resize or edit a link
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, linkId } = await params
+  const body = await parseBody(request, updateLinkSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      if (!current.links.some(l => l.id === linkId)) return jsonError('Link not found', 404)
+      return [{ type: 'updateLink', id: linkId, updates: body.data }]
+    })
+    if (canvas instanceof NextResponse) return canvas
+
+    return NextResponse.json(canvas.links.find(l => l.id === linkId))
+  } catch (error) {
+    return serverError(error, 'Failed to update link')
+  }
+}
+
+/**
+ * Delete a link along with its connections
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId, linkId } = await params
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      if (!current.links.some(l => l.id === linkId)) return jsonError('Link not found', 404)
+      return [{ type: 'deleteLink', id: linkId }]
+    })
+    return canvas instanceof NextResponse ? canvas : new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return serverError(error, 'Failed to delete link')
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Canvas, Link } from '@/types'
+import {
+  checkCanvasApiEnabled,
+  loadStoredCanvas,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { scrapeMetadata } from '@/lib/metadata-scraper'
+import { addLinkSchema } from '@/lib/validations'
+import { generateId } from '@/lib/utils'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string }>
+}
+
+// Place links added without a position in a row to the right of existing content
+function getNextLinkPosition(canvas: Canvas): { x: number; y: number } {
+  if (canvas.links.length === 0) return { x: 0, y: 0 }
+
+  const right = Math.max(...canvas.links.map(link => link.x + link.width))
+  const top = Math.min(...canvas.links.map(link => link.y))
+  return { x: right + 40, y: top }
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+
+  try {
+    const canvas = await loadStoredCanvas(canvasId)
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(canvas.links)
+  } catch (error) {
+    return serverError(error, 'Failed to load links')
+  }
+}
+
+/**
+ * Add a link by URL. Metadata is fetched before the link is stored.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+  const body = await parseBody(request, addLinkSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const existing = await loadStoredCanvas(canvasId)
+    if (existing instanceof NextResponse) return existing
+
+    const metadata = await scrapeMetadata(body.data.url)
+    const id = generateId()
+
+    const canvas = await updateStoredCanvas(canvasId, current => {
+      const position = getNextLinkPosition(current)
+      const link: Link = {
+        id,
+        url: body.data.url,
+        title: metadata.title,
+        description: metadata.description,
+        imageUrl: metadata.imageUrl,
+        favicon: metadata.favicon,
+        domain: metadata.domain,
+        x: body.data.x ?? position.x,
+        y: body.data.y ?? position.y,
+        width: 320,
+        height: 200,
+        zIndex: 1,
+        metadataFetchedAt: new Date().toISOString(),
+      }
+      return [{ type: 'addLink', link }]
+    })
+    if (canvas instanceof NextResponse) return canvas
+
+    return NextResponse.json(canvas.links.find(link => link.id === id), { status: 201 })
+  } catch (error) {
+    return serverError(error, 'Failed to add link')
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fileAdapter } from '@/lib/file-adapter'
+import {
+  checkCanvasApiEnabled,
+  jsonError,
+  loadStoredCanvas,
+  parseBody,
+  serverError,
+  updateStoredCanvas,
+} from '@/lib/canvas-api'
+import { RevisionConflictError } from '@/lib/storage-adapter'
+import { canvasSchema, updateCanvasSchema } from '@/lib/validations'
+
+interface RouteContext {
+  params: Promise<{ canvasId: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+
+  try {
+    const canvas = await loadStoredCanvas(canvasId)
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(canvas)
+  } catch (error) {
+    return serverError(error, 'Failed to load canvas')
+  }
+}
+
+/**
+ * Create or replace a canvas. The body's revision must match the stored one
+ * unless ?force=true; a mismatch returns 409 with the stored canvas.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+  const body = await parseBody(request, canvasSchema)
+  if ('response' in body) return body.response
+
+  if (body.data.id !== canvasId) {
+    return jsonError('Canvas id does not match the URL', 400)
+  }
+
+  try {
+    const force = request.nextUrl.searchParams.get('force') === 'true'
+    return NextResponse.json(await fileAdapter.writeCanvas(body.data, { force }))
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return jsonError(error.message, 409, { stored: error.stored })
+    }
+    return serverError(error, 'Failed to save canvas')
+  }
+}
+
+/**
+ * Rename a canvas or change its description
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+  const body = await parseBody(request, updateCanvasSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const canvas = await updateStoredCanvas(canvasId, () => [{ type: 'updateCanvas', updates: body.data }])
+    return canvas instanceof NextResponse ? canvas : NextResponse.json(canvas)
+  } catch (error) {
+    return serverError(error, 'Failed to update canvas')
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const { canvasId } = await params
+
+  try {
+    await fileAdapter.removeCanvas(canvasId)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return serverError(error, 'Failed to delete canvas')
+  }
+}
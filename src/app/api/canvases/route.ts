@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Canvas } from '@/types'
+import { fileAdapter } from '@/lib/file-adapter'
+import { checkCanvasApiEnabled, parseBody, serverError } from '@/lib/canvas-api'
+import { checkStoredCanvas } from '@/lib/storage-adapter'
+import { createCanvasSchema } from '@/lib/validations'
+import { generateId } from '@/lib/utils'
+
+/**
+ * List canvas summaries, or full canvases with ?full=true
+ */
+export async function GET(request: NextRequest) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  try {
+    if (request.nextUrl.searchParams.get('full') === 'true') {
+      const records = await fileAdapter.readCanvases()
+      return NextResponse.json(records.map(checkStoredCanvas).filter(Boolean))
+    }
+
+    return NextResponse.json(await fileAdapter.listCanvases())
+  } catch (error) {
+    return serverError(error, 'Failed to list canvases')
+  }
+}
+
+/**
+ * Create an empty canvas
+ */
+export async function POST(request: NextRequest) {
+  const disabled = checkCanvasApiEnabled()
+  if (disabled) return disabled
+
+  const body = await parseBody(request, createCanvasSchema)
+  if ('response' in body) return body.response
+
+  const now = new Date().toISOString()
+  const canvas: Canvas = {
+    id: generateId(),
+    name: body.data.name,
+    description: body.data.description,
+    links: [],
+    connections: [],
+    groups: [],
+    viewport: { x: 0, y: 0, zoom: 1 },
+    revision: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  try {
+    return NextResponse.json(await fileAdapter.writeCanvas(canvas, {}), { status: 201 })
+  } catch (error) {
+    return serverError(error, 'Failed to create canvas')
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fetchPublicUrl } from '@/lib/public-fetch'
+
+// Favicons are tiny; anything bigger is not what we asked for
+const MAX_FAVICON_BYTES = 256 * 1024
+
+// Raster formats only: an SVG served from this origin could run script against its storage
+const ALLOWED_TYPES = new Set([
+  'image/png',
+  'image/x-icon',
+  'image/vnd.microsoft.icon',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+])
+
+/**
+ * Fetch a favicon on behalf of the browser, so image exports can embed it
+ * without running into cross-origin restrictions
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const url = request.nextUrl.searchParams.get('url')
+
+  if (!url) {
+    return NextResponse.json(
+      { error: 'URL parameter is required' },
+      { status: 400 }
+    )
+  }
+
+  // Validate URL
+  try {
+    const { protocol } = new URL(url)
+    if (protocol !== 'http:' && protocol !== 'https:') throw new Error('Unsupported protocol')
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid URL format' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { contentType, body } = await fetchPublicUrl(url, {
+      maxBytes: MAX_FAVICON_BYTES,
+      timeoutMs: 5000,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LinkCanvas/1.0; +https://linkcanvas.app)',
+      },
+    })
+
+    const type = contentType.split(';')[0].trim().toLowerCase()
+    if (!ALLOWED_TYPES.has(type)) {
+      return NextResponse.json({ error: 'Not a supported image' }, { status: 502 })
+    }
+
+    return new NextResponse(Buffer.from(body), {
+      headers: {
+        'Content-Type': type,
+        'Cache-Control': 'public, max-age=86400',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'",
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching favicon:', error)
+    return NextResponse.json({ error: 'Failed to fetch favicon' }, { status: 502 })
+  }
+}
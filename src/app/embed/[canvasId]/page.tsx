@@ -0,0 +1,16 @@
+import EmbeddedCanvas from '@/components/canvas/embedded-canvas'
+import { parseEmbedOptions } from '@/lib/embed'
+
+interface PageProps {
+  params: Promise<{
+    canvasId: string
+  }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function EmbedPage({ params, searchParams }: PageProps) {
+  const { canvasId } = await params
+  const options = parseEmbedOptions(await searchParams)
+
+  return <EmbeddedCanvas canvasId={canvasId} options={options} />
+}
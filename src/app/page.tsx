@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { Plus, Layout, ArrowRight, Trash2 } from 'lucide-react'
+import { Plus, Layout, ArrowRight, Trash2, Lock } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardFooter, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import {
@@ -17,25 +17,40 @@ import {
 } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { getCanvases, saveCanvas, deleteCanvas } from '@/lib/storage'
+import { getCanvasIndex, saveCanvas } from '@/lib/storage'
+import { STORAGE_BACKEND } from '@/lib/storage-adapter'
+import { purgeExpiredTrash, restoreTrashItem, trashCanvas } from '@/lib/trash'
 import { generateId } from '@/lib/utils'
-import type { Canvas } from '@/types'
+import { subscribeToTabMessages } from '@/lib/tab-sync'
+import type { Canvas, CanvasSummary } from '@/types'
+import TrashDialog from '@/components/canvas/trash-dialog'
 import { toast } from 'sonner'
 
 export default function Home() {
   const router = useRouter()
-  const [canvases, setCanvases] = useState<Canvas[]>([])
+  const [canvases, setCanvases] = useState<CanvasSummary[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [newCanvasName, setNewCanvasName] = useState('')
   const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
 
   useEffect(() => {
     loadCanvases()
+    purgeExpiredTrash()
+  }, [])
+
+  // Refresh the list when another tab creates, changes or deletes a canvas
+  useEffect(() => {
+    return subscribeToTabMessages(message => {
+      if (message.type === 'canvas-list-changed') {
+        loadCanvases()
+      }
+    })
   }, [])
 
   const loadCanvases = async () => {
     try {
-      const data = await getCanvases()
+      const data = await getCanvasIndex()
       // Sort by updated at desc
       data.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
       setCanvases(data)
@@ -58,6 +73,7 @@ export default function Home() {
         links: [],
         connections: [],
         viewport: { x: 0, y: 0, zoom: 1 },
+        revision: 0,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       }
@@ -77,12 +93,18 @@ export default function Home() {
     e.preventDefault()
     e.stopPropagation()
 
-    if (!confirm('Are you sure you want to delete this canvas?')) return
-
     try {
-      await deleteCanvas(id)
+      const item = await trashCanvas(id)
       await loadCanvases()
-      toast.success('Canvas deleted')
+      toast.success('Canvas moved to trash', {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            await restoreTrashItem(item)
+            await loadCanvases()
+          },
+        },
+      })
     } catch (error) {
       console.error('Failed to delete canvas', error)
       toast.error('Failed to delete canvas')
@@ -97,47 +119,53 @@ export default function Home() {
           <div className="space-y-1">
             <h1 className="text-3xl font-sans font-bold tracking-tight">LINK CANVAS</h1>
             <p className="text-muted-foreground font-mono text-sm">
-              DIGITAL BLUEPRINT // LOCAL STORAGE
+              DIGITAL BLUEPRINT // {STORAGE_BACKEND === 'server' ? 'SERVER STORAGE' : 'LOCAL STORAGE'}
             </p>
           </div>
 
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="rounded-none gap-2">
-                <Plus size={16} /> NEW CANVAS
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="rounded-none border-ring sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle className="font-sans">CREATE CANVAS</DialogTitle>
-                <DialogDescription className="font-mono text-xs">
-                  Enter a name for your new workspace.
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleCreateCanvas}>
-                <div className="grid gap-4 py-4">
-                  <div className="grid gap-2">
-                    <Label htmlFor="name" className="font-mono text-xs uppercase">
-                      Name
-                    </Label>
-                    <Input
-                      id="name"
-                      value={newCanvasName}
-                      onChange={(e) => setNewCanvasName(e.target.value)}
-                      className="rounded-none font-sans"
-                      placeholder="Project Alpha..."
-                      autoFocus
-                    />
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="rounded-none gap-2" onClick={() => setIsTrashOpen(true)}>
+              <Trash2 size={16} /> TRASH
+            </Button>
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="rounded-none gap-2">
+                  <Plus size={16} /> NEW CANVAS
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="rounded-none border-ring sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle className="font-sans">CREATE CANVAS</DialogTitle>
+                  <DialogDescription className="font-mono text-xs">
+                    Enter a name for your new workspace.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleCreateCanvas}>
+                  <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="name" className="font-mono text-xs uppercase">
+                        Name
+                      </Label>
+                      <Input
+                        id="name"
+                        value={newCanvasName}
+                        onChange={(e) => setNewCanvasName(e.target.value)}
+                        className="rounded-none font-sans"
+                        placeholder="Project Alpha..."
+                        autoFocus
+                      />
+                    </div>
                   </div>
-                </div>
-                <DialogFooter>
-                  <Button type="submit" className="rounded-none w-full">
-                    CREATE BLUEPRINT
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <DialogFooter>
+                    <Button type="submit" className="rounded-none w-full">
+                      CREATE BLUEPRINT
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Canvas Grid */}
@@ -172,10 +200,16 @@ export default function Home() {
                   <CardContent className="flex-1 pb-3">
                     <div className="h-24 bg-muted/20 border border-border/50 relative overflow-hidden">
                       <div className="absolute inset-0 opacity-20 bg-[radial-gradient(#000_1px,transparent_1px)] [background-size:16px_16px]"></div>
-                      <div className="p-4 font-mono text-[10px] text-muted-foreground">
-                        {canvas.links.length} ITEMS<br/>
-                        {canvas.connections.length} CONNECTIONS
-                      </div>
+                      {canvas.encrypted ? (
+                        <div className="p-4 font-mono text-[10px] text-muted-foreground flex items-center gap-1.5">
+                          <Lock size={10} /> ENCRYPTED
+                        </div>
+                      ) : (
+                        <div className="p-4 font-mono text-[10px] text-muted-foreground">
+                          {canvas.linkCount} ITEMS<br/>
+                          {canvas.connectionCount} CONNECTIONS
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                   <CardFooter className="pt-0 flex justify-between items-center text-muted-foreground">
@@ -195,6 +229,12 @@ export default function Home() {
           </div>
         )}
       </div>
+
+      <TrashDialog
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        onRestored={() => loadCanvases()}
+      />
     </div>
   )
 }
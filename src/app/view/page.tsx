@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Panel } from '@xyflow/react'
+import { Copy, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import ReadOnlyCanvas from '@/components/canvas/read-only-canvas'
+import { decodeShareFragment } from '@/lib/share-link'
+import { copyCanvas } from '@/lib/import-merge'
+import { saveCanvas } from '@/lib/storage'
+import type { Canvas } from '@/types'
+
+export default function ViewPage() {
+  const router = useRouter()
+  const [canvas, setCanvas] = useState<Canvas | null>(null)
+  // The fragment the canvas was decoded from; a new one means a new snapshot
+  const [loadedFragment, setLoadedFragment] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // The canvas lives in the URL fragment, which never reaches the server
+  useEffect(() => {
+    const load = () => {
+      const fragment = window.location.hash.slice(1)
+      if (!fragment) {
+        setError('This link does not contain a canvas')
+        return
+      }
+
+      decodeShareFragment(fragment)
+        .then(decoded => {
+          // A later hash change may have finished first
+          if (window.location.hash.slice(1) !== fragment) return
+          setCanvas(decoded)
+          setLoadedFragment(fragment)
+          setError(null)
+        })
+        .catch((err: Error) => setError(err.message))
+    }
+
+    load()
+    window.addEventListener('hashchange', load)
+    return () => window.removeEventListener('hashchange', load)
+  }, [])
+
+  const handleSaveCopy = async () => {
+    if (!canvas) return
+
+    setIsSaving(true)
+    try {
+      const now = new Date().toISOString()
+      const copy = { ...copyCanvas(canvas), revision: 0, createdAt: now, updatedAt: now }
+      const saved = await saveCanvas(copy)
+      toast.success('Saved to your canvases')
+      router.push(`/canvas/${saved.id}`)
+    } catch (err) {
+      console.error('Failed to save shared canvas', err)
+      toast.error('Failed to save a copy')
+      setIsSaving(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background p-8">
+        <AlertTriangle className="h-10 w-10 text-muted-foreground/50" />
+        <p className="font-mono text-sm text-muted-foreground">{error.toUpperCase()}</p>
+        <Button variant="outline" className="rounded-none" onClick={() => router.push('/')}>
+          GO TO MY CANVASES
+        </Button>
+      </div>
+    )
+  }
+
+  if (!canvas) {
+    return (
+      <div className="flex items-center justify-center h-screen w-full bg-background text-muted-foreground font-mono">
+        LOADING SHARED CANVAS...
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full h-screen">
+      <ReadOnlyCanvas key={loadedFragment} canvas={canvas} showMiniMap>
+        <Panel position="top-left" className="m-4">
+          <div className="bg-background/80 backdrop-blur-sm border border-border p-4 rounded-none shadow-sm space-y-2">
+            <h1 className="font-sans font-bold text-xl tracking-tight">{canvas.name}</h1>
+            <p className="font-mono text-xs text-muted-foreground">
+              READ-ONLY • {canvas.links.length} LINKS • {canvas.connections.length} CONNECTIONS
+            </p>
+            <Button
+              size="sm"
+              onClick={handleSaveCopy}
+              disabled={isSaving}
+              className="rounded-none text-xs gap-2"
+            >
+              <Copy size={12} />
+              Save a copy to my canvases
+            </Button>
+          </div>
+        </Panel>
+      </ReadOnlyCanvas>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Plus, Folder, Download, Upload, Link as LinkIcon, RefreshCw } from 'lucide-react'
+import { Plus, Folder, Download, Upload, Link as LinkIcon, RefreshCw, Undo2, Redo2, History, Trash2, Share2, Lock, LockOpen } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Popover,
@@ -10,13 +10,32 @@ import {
 } from '@/components/ui/popover'
 import { Separator } from '@/components/ui/separator'
 import { cn } from '@/lib/utils'
+import type { LinkImportFormat } from './link-import-dialog'
+
+// What the Export popover can write: the open canvas, its selected nodes or every canvas
+export type ExportScope = 'canvas' | 'selection' | 'all'
+
+// Other tools' formats the open canvas can be written in
+export type ExportFormat = 'bookmarks' | 'markdown' | 'json-canvas' | 'opml' | 'mermaid' | 'dot' | 'graphml' | 'image' | 'html'
 
 interface CanvasToolbarProps {
   onCreateGroup: () => void
   onAddLink: () => void
-  onExport: () => void
+  onExport: (scope: ExportScope) => void
+  onExportEncrypted: () => void
+  onExportAs: (format: ExportFormat) => void
   onImport: () => void
+  onImportLinks: (format: LinkImportFormat) => void
   onMetadataRefresh: () => void
+  onHistory: () => void
+  onTrash: () => void
+  onShare: () => void
+  onEncryption: () => void
+  isEncrypted: boolean
+  onUndo: () => void
+  onRedo: () => void
+  canUndo: boolean
+  canRedo: boolean
   className?: string
 }
 
@@ -24,8 +43,20 @@ export default function CanvasToolbar({
   onCreateGroup,
   onAddLink,
   onExport,
+  onExportEncrypted,
+  onExportAs,
   onImport,
+  onImportLinks,
   onMetadataRefresh,
+  onHistory,
+  onTrash,
+  onShare,
+  onEncryption,
+  isEncrypted,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   className
 }: CanvasToolbarProps) {
   const [isImportOpen, setIsImportOpen] = useState(false)
@@ -38,6 +69,30 @@ export default function CanvasToolbar({
       className
     )}>
       <div className="flex items-center gap-1">
+        {/* Undo / Redo Buttons */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="h-8 px-2 rounded-none border border-transparent hover:border-border hover:bg-muted flex items-center gap-2"
+          title="Undo (Ctrl+Z)"
+        >
+          <Undo2 size={12} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="h-8 px-2 rounded-none border border-transparent hover:border-border hover:bg-muted flex items-center gap-2"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <Redo2 size={12} />
+        </Button>
+
+        <Separator orientation="vertical" className="h-6 mx-1 bg-border" />
+
         {/* Add Link Button */}
         <Button
           variant="ghost"
@@ -76,6 +131,55 @@ export default function CanvasToolbar({
           <span className="hidden sm:inline">REFRESH</span>
         </Button>
 
+        {/* History Button */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onHistory}
+          className="h-8 px-2 rounded-none border border-transparent hover:border-border hover:bg-muted flex items-center gap-2"
+          title="Version History"
+        >
+          <History size={12} />
+          <span className="hidden sm:inline">HISTORY</span>
+        </Button>
+
+        {/* Trash Button */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onTrash}
+          className="h-8 px-2 rounded-none border border-transparent hover:border-border hover:bg-muted flex items-center gap-2"
+          title="Trash"
+        >
+          <Trash2 size={12} />
+          <span className="hidden sm:inline">TRASH</span>
+        </Button>
+
+        {/* Share Button */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onShare}
+          disabled={isEncrypted}
+          className="h-8 px-2 rounded-none border border-transparent hover:border-border hover:bg-muted flex items-center gap-2"
+          title={isEncrypted ? 'Encrypted canvases cannot be shared as links' : 'Share Read-Only Link'}
+        >
+          <Share2 size={12} />
+          <span className="hidden sm:inline">SHARE</span>
+        </Button>
+
+        {/* Encryption Button */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onEncryption}
+          className="h-8 px-2 rounded-none border border-transparent hover:border-border hover:bg-muted flex items-center gap-2"
+          title={isEncrypted ? 'Encrypted Canvas' : 'Encrypt Canvas'}
+        >
+          {isEncrypted ? <Lock size={12} /> : <LockOpen size={12} />}
+          <span className="hidden sm:inline">{isEncrypted ? 'LOCKED' : 'LOCK'}</span>
+        </Button>
+
         {/* Import Button */}
         <Popover open={isImportOpen} onOpenChange={setIsImportOpen}>
           <PopoverTrigger asChild>
@@ -109,6 +213,97 @@ export default function CanvasToolbar({
               >
                 Import JSON File
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('bookmarks')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Browser Bookmarks (.html)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('markdown')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Markdown (.md)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('json-canvas')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                JSON Canvas (.canvas)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('opml')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                OPML (.opml)
+              </Button>
+              <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground pt-1">
+                Read-Later Services
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('pocket')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Pocket (.csv / .html)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('raindrop')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Raindrop.io (.csv)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('pinboard')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Pinboard (.json / .html)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onImportLinks('instapaper')
+                  setIsImportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Instapaper (.csv)
+              </Button>
             </div>
           </PopoverContent>
         </Popover>
@@ -139,12 +334,147 @@ export default function CanvasToolbar({
                 variant="outline"
                 size="sm"
                 onClick={() => {
-                  onExport()
+                  onExport('canvas')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                This Canvas
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExport('selection')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Selected Nodes
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExport('all')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                All Canvases
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportEncrypted()
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Password-Protected Backup
+              </Button>
+              <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground pt-1">
+                Export Canvas As
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('bookmarks')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Browser Bookmarks (.html)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('markdown')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Markdown (.md)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('json-canvas')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                JSON Canvas (.canvas)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('opml')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                OPML (.opml)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('mermaid')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Mermaid Flowchart (.mmd)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('dot')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Graphviz DOT (.dot)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('graphml')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                GraphML (.graphml)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('image')
+                  setIsExportOpen(false)
+                }}
+                className="w-full rounded-none border-2 text-xs justify-start"
+              >
+                Image (.svg / .png)
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onExportAs('html')
                   setIsExportOpen(false)
                 }}
                 className="w-full rounded-none border-2 text-xs justify-start"
               >
-                Export as JSON
+                Standalone Web Page (.html)
               </Button>
             </div>
           </PopoverContent>
@@ -0,0 +1,73 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Lock } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { WrongPassphraseError } from '@/lib/encryption'
+import { useCanvasStore } from '@/store/canvas-store'
+import type { Canvas } from '@/types'
+
+interface CanvasUnlockProps {
+  canvas: Canvas
+}
+
+/**
+ * Passphrase prompt shown in place of an encrypted canvas
+ */
+export default function CanvasUnlock({ canvas }: CanvasUnlockProps) {
+  const unlockCanvas = useCanvasStore(state => state.unlockCanvas)
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      await unlockCanvas(passphrase)
+    } catch (err) {
+      if (!(err instanceof WrongPassphraseError)) {
+        console.error('Failed to unlock canvas:', err)
+      }
+      setError(err instanceof WrongPassphraseError ? 'WRONG PASSPHRASE' : 'COULD NOT UNLOCK THIS CANVAS')
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center h-screen w-full bg-background p-8">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm border-2 border-border p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Lock size={16} className="text-muted-foreground" />
+          <h1 className="font-sans font-bold text-lg truncate">{canvas.name}</h1>
+        </div>
+        <p className="font-mono text-xs text-muted-foreground">
+          THIS CANVAS IS ENCRYPTED. ENTER ITS PASSPHRASE TO OPEN IT FOR THIS SESSION.
+        </p>
+        <Input
+          type="password"
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="rounded-none border-2 font-mono"
+          autoFocus
+        />
+        {error && <p className="font-mono text-[10px] text-destructive">{error}</p>}
+        <div className="flex justify-between gap-2">
+          <Button type="button" variant="outline" className="rounded-none border-2" asChild>
+            <Link href="/">Back</Link>
+          </Button>
+          <Button type="submit" disabled={!passphrase || isUnlocking} className="rounded-none">
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { ViewportPortal, useViewport } from '@xyflow/react'
+import { useCanvasStore } from '@/store/canvas-store'
+import type { Canvas } from '@/types'
+
+// Canvas-space bounds of a link or group
+function getNodeBounds(canvas: Canvas, id: string) {
+  return canvas.links.find(link => link.id === id) || (canvas.groups || []).find(group => group.id === id)
+}
+
+/**
+ * Collaborators' cursors and selections, drawn in canvas coordinates.
+ * Must be rendered inside ReactFlow.
+ */
+export default function CollaborationOverlay() {
+  const canvas = useCanvasStore(state => state.canvas)
+  const collaborators = useCanvasStore(state => state.collaborators)
+  const { zoom } = useViewport()
+
+  if (!canvas || collaborators.length === 0) return null
+
+  return (
+    <ViewportPortal>
+      {collaborators.map(collaborator =>
+        collaborator.selection.map(id => {
+          const bounds = getNodeBounds(canvas, id)
+          if (!bounds) return null
+          return (
+            <div
+              key={`${collaborator.clientId}-${id}`}
+              className="absolute pointer-events-none border-2"
+              style={{
+                transform: `translate(${bounds.x - 4}px, ${bounds.y - 4}px)`,
+                width: bounds.width + 8,
+                height: bounds.height + 8,
+                borderColor: collaborator.color,
+              }}
+            />
+          )
+        })
+      )}
+
+      {collaborators.map(collaborator =>
+        collaborator.cursor ? (
+          <div
+            key={collaborator.clientId}
+            className="absolute pointer-events-none z-50"
+            style={{
+              // Keep cursors the same size at every zoom level
+              transform: `translate(${collaborator.cursor.x}px, ${collaborator.cursor.y}px) scale(${1 / zoom})`,
+              transformOrigin: '0 0',
+            }}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16">
+              <path d="M0 0 L0 14 L4 10 L7 16 L9 15 L6 9 L12 9 Z" fill={collaborator.color} stroke="white" strokeWidth="1" />
+            </svg>
+            <div
+              className="ml-3 px-1.5 py-0.5 font-mono text-[10px] text-white whitespace-nowrap"
+              style={{ backgroundColor: collaborator.color }}
+            >
+              {collaborator.name}
+            </div>
+          </div>
+        ) : null
+      )}
+    </ViewportPortal>
+  )
+}
@@ -57,25 +57,27 @@ function ConnectionEdge({
           stroke: 'var(--ring)', // Use accent color
         }}
       />
-      <EdgeLabelRenderer>
-        <div
-          style={{
-            position: 'absolute',
-            transform: `translate(-50%, -50%) translate(${labelX}px,${labelY}px)`,
-            pointerEvents: 'all',
-          }}
-          className="nodrag nopan"
-        >
-          <Button
-            variant="outline"
-            size="icon"
-            className="h-5 w-5 rounded-none border-ring bg-background hover:bg-destructive hover:text-destructive-foreground hover:border-destructive transition-colors"
-            onClick={handleDelete}
+      {data?.onDelete && (
+        <EdgeLabelRenderer>
+          <div
+            style={{
+              position: 'absolute',
+              transform: `translate(-50%, -50%) translate(${labelX}px,${labelY}px)`,
+              pointerEvents: 'all',
+            }}
+            className="nodrag nopan"
           >
-            <X size={10} />
-          </Button>
-        </div>
-      </EdgeLabelRenderer>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-5 w-5 rounded-none border-ring bg-background hover:bg-destructive hover:text-destructive-foreground hover:border-destructive transition-colors"
+              onClick={handleDelete}
+            >
+              <X size={10} />
+            </Button>
+          </div>
+        </EdgeLabelRenderer>
+      )}
     </>
   )
 }
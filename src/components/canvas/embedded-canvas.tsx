@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import ReadOnlyCanvas from './read-only-canvas'
+import { getCanvas } from '@/lib/storage'
+import { STORAGE_BACKEND } from '@/lib/storage-adapter'
+import { decodeShareFragment } from '@/lib/share-link'
+import { postToParent, type EmbedOptions } from '@/lib/embed'
+import type { Canvas } from '@/types'
+import { cn } from '@/lib/utils'
+
+interface EmbeddedCanvasProps {
+  canvasId: string
+  options: EmbedOptions
+}
+
+// A share-link fragment takes precedence over stored canvases, and is what the
+// share dialog's embed code uses. Without one the canvas is looked up in storage,
+// which with the local backend only works on this app's own pages: browsers give
+// frames on other sites separate, empty storage.
+async function readEmbeddedCanvas(canvasId: string): Promise<Canvas> {
+  const fragment = window.location.hash.slice(1)
+  if (fragment) {
+    return decodeShareFragment(fragment)
+  }
+
+  const canvas = await getCanvas(canvasId)
+  if (!canvas) {
+    throw new Error(STORAGE_BACKEND === 'server'
+      ? 'Canvas not found'
+      : 'Canvas not found. Use the embed code from the share dialog')
+  }
+  // Even when unlocked in this session, an encrypted canvas is never shown in a frame
+  if (canvas.encryption) {
+    throw new Error('This canvas is encrypted')
+  }
+  return canvas
+}
+
+function usePrefersDark(enabled: boolean): boolean {
+  const [prefersDark, setPrefersDark] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+    const query = window.matchMedia('(prefers-color-scheme: dark)')
+    const update = () => setPrefersDark(query.matches)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [enabled])
+
+  return prefersDark
+}
+
+/**
+ * Chrome-less canvas for iframes: no toolbar, editing or context menu,
+ * with resize and navigation events posted to the parent frame
+ */
+export default function EmbeddedCanvas({ canvasId, options }: EmbeddedCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [canvas, setCanvas] = useState<Canvas | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const prefersDark = usePrefersDark(options.theme === 'system')
+  const isDark = options.theme === 'dark' || (options.theme === 'system' && prefersDark)
+
+  useEffect(() => {
+    readEmbeddedCanvas(canvasId)
+      .then(loaded => {
+        setCanvas(loaded)
+        postToParent({ type: 'ready', canvasId: loaded.id, name: loaded.name })
+      })
+      .catch((err: Error) => {
+        console.error('Error loading embedded canvas:', err)
+        setError(err.message)
+        postToParent({ type: 'error', message: err.message })
+      })
+  }, [canvasId])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      postToParent({ type: 'resize', width: Math.round(width), height: Math.round(height) })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Link cards open their URL through a plain anchor; report it on the way out
+  const handleClickCapture = (event: React.MouseEvent) => {
+    const anchor = (event.target as HTMLElement).closest('a[href]')
+    if (anchor) {
+      postToParent({ type: 'navigate', url: (anchor as HTMLAnchorElement).href })
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('w-full h-screen bg-background text-foreground', isDark && 'dark')}
+      onClickCapture={handleClickCapture}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {error ? (
+        <div className="flex items-center justify-center h-full font-mono text-xs text-muted-foreground">
+          {error.toUpperCase()}
+        </div>
+      ) : canvas ? (
+        <ReadOnlyCanvas
+          key={canvas.id}
+          canvas={canvas}
+          viewport={options.viewport}
+          showMiniMap={options.showMiniMap}
+          showControls={options.showControls}
+          onViewportChange={viewport => postToParent({ type: 'viewport', viewport })}
+        />
+      ) : (
+        <div className="flex items-center justify-center h-full font-mono text-xs text-muted-foreground">
+          LOADING...
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { Lock, LockOpen, KeyRound } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import PassphraseDialog from './passphrase-dialog'
+import { useCanvasStore } from '@/store/canvas-store'
+
+interface EncryptionDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * Turn passphrase protection on for the open canvas, or lock, re-key or unprotect it
+ */
+export default function EncryptionDialog({ isOpen, onClose }: EncryptionDialogProps) {
+  const isEncrypted = useCanvasStore(state => Boolean(state.canvas?.encryption))
+  const setCanvasPassphrase = useCanvasStore(state => state.setCanvasPassphrase)
+  const lockCanvas = useCanvasStore(state => state.lockCanvas)
+  const [isChanging, setIsChanging] = useState(false)
+
+  const handleLock = async () => {
+    onClose()
+    await lockCanvas()
+  }
+
+  const handleRemove = async () => {
+    if (!confirm('Store this canvas, its history and its trash unencrypted again?')) return
+
+    try {
+      await setCanvasPassphrase(null)
+      toast.success('Encryption removed')
+      onClose()
+    } catch (error) {
+      console.error('Failed to remove encryption:', error)
+      toast.error('Failed to remove encryption')
+    }
+  }
+
+  if (!isEncrypted || isChanging) {
+    return (
+      <PassphraseDialog
+        isOpen={isOpen}
+        onClose={() => {
+          setIsChanging(false)
+          onClose()
+        }}
+        title={isChanging ? 'Change Passphrase' : 'Encrypt Canvas'}
+        description="The canvas, its version history and its trash are stored encrypted (AES-GCM). You enter the passphrase once per session to open it. Encrypted canvases are not shared for live collaboration."
+        submitLabel={isChanging ? 'Change Passphrase' : 'Encrypt'}
+        onSubmit={async passphrase => {
+          await setCanvasPassphrase(passphrase)
+          toast.success(isChanging ? 'Passphrase changed' : 'Canvas encrypted')
+        }}
+      />
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="rounded-none border-2 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <Lock size={16} />
+            Encrypted Canvas
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            This canvas is stored encrypted and unlocked for this session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Button variant="outline" onClick={handleLock} className="rounded-none border-2 justify-start gap-2 text-xs">
+            <Lock size={12} />
+            Lock Now
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsChanging(true)}
+            className="rounded-none border-2 justify-start gap-2 text-xs"
+          >
+            <KeyRound size={12} />
+            Change Passphrase
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleRemove}
+            className="rounded-none border-2 justify-start gap-2 text-xs hover:bg-destructive hover:text-destructive-foreground"
+          >
+            <LockOpen size={12} />
+            Remove Encryption
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
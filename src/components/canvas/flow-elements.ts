@@ -0,0 +1,64 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { Canvas, Group } from '@/types'
+
+// Editing callbacks handed to nodes and edges; omitted for read-only views
+export interface FlowElementHandlers {
+  onDeleteLink?: (id: string) => void
+  onRefreshMetadata?: (id: string) => void
+  onDeleteGroup?: (id: string) => void
+  onUpdateGroup?: (id: string, updates: Partial<Group>) => void
+  onEditGroup?: (group: Group) => void
+  onDeleteConnection?: (id: string) => void
+}
+
+/**
+ * Map canvas links and groups to React Flow nodes
+ */
+export function toFlowNodes(canvas: Canvas, handlers: FlowElementHandlers = {}, readOnly = false): Node[] {
+  // Map links to nodes
+  const linkNodes: Node[] = canvas.links.map(link => ({
+    id: link.id,
+    type: 'linkCard',
+    position: { x: link.x, y: link.y },
+    data: {
+      ...link,
+      readOnly,
+      onDelete: handlers.onDeleteLink,
+      onRefreshMetadata: handlers.onRefreshMetadata,
+    },
+  }))
+
+  // Map groups to nodes (render behind links)
+  const groupNodes: Node[] = (canvas.groups || []).map(group => ({
+    id: group.id,
+    type: 'group',
+    position: { x: group.x, y: group.y },
+    data: {
+      ...group,
+      readOnly,
+      onDelete: handlers.onDeleteGroup,
+      onUpdate: handlers.onUpdateGroup,
+      onEdit: handlers.onEditGroup,
+    },
+  }))
+
+  // Groups should render behind links, so we put them first
+  return [...groupNodes, ...linkNodes]
+}
+
+/**
+ * Map canvas connections to React Flow edges
+ */
+export function toFlowEdges(canvas: Canvas, handlers: FlowElementHandlers = {}): Edge[] {
+  return canvas.connections.map(conn => ({
+    id: conn.id,
+    source: conn.sourceId,
+    target: conn.targetId,
+    type: 'default',
+    animated: conn.style === 'animated',
+    style: conn.style === 'dashed' ? { strokeDasharray: '5,5' } : undefined,
+    data: {
+      onDelete: handlers.onDeleteConnection,
+    },
+  }))
+}
@@ -8,6 +8,7 @@ import type { Group } from '@/types'
 import { cn } from '@/lib/utils'
 
 interface GroupNodeData extends Group, Record<string, unknown> {
+  readOnly?: boolean
   onDelete?: (id: string) => void
   onUpdate?: (id: string, updates: Partial<Group>) => void
   onEdit?: (group: Group) => void
@@ -54,7 +55,7 @@ function GroupNode({ data, selected }: NodeProps<GroupNode>) {
             {data.name}
           </span>
         </div>
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className={cn("flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity", data.readOnly && "hidden")}>
           <Button
             variant="ghost"
             size="icon"
@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { History, Camera, Trash2, RotateCcw, Copy } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import ReadOnlyCanvas from './read-only-canvas'
+import { createSnapshot, deleteSnapshot, listSnapshots } from '@/lib/snapshots'
+import { extractCanvasItems } from '@/lib/canvas-selection'
+import { isCanvasSealed } from '@/lib/encryption'
+import { useCanvasStore } from '@/store/canvas-store'
+import type { CanvasSnapshot } from '@/types'
+import { cn } from '@/lib/utils'
+
+interface HistoryPanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export default function HistoryPanel({ isOpen, onClose }: HistoryPanelProps) {
+  const canvas = useCanvasStore(state => state.canvas)
+  const [snapshots, setSnapshots] = useState<CanvasSnapshot[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([])
+  const [snapshotName, setSnapshotName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canvasId = canvas?.id
+
+  useEffect(() => {
+    if (!isOpen || !canvasId) return
+    listSnapshots(canvasId).then(setSnapshots)
+  }, [isOpen, canvasId])
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) || null
+  // Snapshots taken under an earlier passphrase can't be read any more
+  const isSelectedSealed = selected ? isCanvasSealed(selected.canvas) : false
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id)
+    setSelectedNodeIds([])
+  }
+
+  const handleTakeSnapshot = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canvas) return
+
+    setIsSaving(true)
+    try {
+      const name = snapshotName.trim() || `Snapshot ${new Date().toLocaleString()}`
+      const snapshot = await createSnapshot(canvas, name)
+      setSnapshots(await listSnapshots(canvas.id))
+      setSelectedId(snapshot.id)
+      setSnapshotName('')
+      toast.success('Snapshot saved')
+    } catch {
+      toast.error('Failed to save snapshot')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (snapshot: CanvasSnapshot) => {
+    try {
+      await deleteSnapshot(snapshot.canvasId, snapshot.id)
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id))
+      if (selectedId === snapshot.id) setSelectedId(null)
+    } catch {
+      toast.error('Failed to delete snapshot')
+    }
+  }
+
+  const handleRestore = () => {
+    if (!selected || isSelectedSealed) return
+    useCanvasStore.getState().replaceContent(selected.canvas)
+    toast.success(`Restored "${selected.name}"`, { description: 'Press Ctrl+Z to undo' })
+    onClose()
+  }
+
+  const handleCopyNodes = () => {
+    if (!selected || selectedNodeIds.length === 0) return
+
+    const { links, groups, connections } = extractCanvasItems(selected.canvas, selectedNodeIds, { freshIds: true })
+    const store = useCanvasStore.getState()
+
+    // Paste as a single undo step
+    store.beginHistoryBatch()
+    groups.forEach(group => store.addGroup(group))
+    links.forEach(link => store.addLink(link))
+    connections.forEach(connection => store.addConnection(connection))
+    store.endHistoryBatch()
+
+    toast.success(`Copied ${links.length + groups.length} item(s) into the canvas`)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="rounded-none border-2 sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <History size={16} />
+            Version History
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            Snapshots of this canvas. Automatic snapshots are taken every few minutes while you edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[260px_1fr] gap-4 h-[480px]">
+          {/* Snapshot list */}
+          <div className="flex flex-col gap-2 min-h-0">
+            <form onSubmit={handleTakeSnapshot} className="flex gap-1">
+              <Input
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+                placeholder="Snapshot name..."
+                className="rounded-none border-2 font-mono text-xs h-8"
+              />
+              <Button
+                type="submit"
+                size="sm"
+                disabled={isSaving || !canvas}
+                className="rounded-none h-8"
+                title="Take Snapshot"
+              >
+                <Camera size={12} />
+              </Button>
+            </form>
+
+            <div className="flex-1 overflow-y-auto space-y-1 border border-border p-1">
+              {snapshots.length === 0 && (
+                <div className="p-4 text-center font-mono text-[10px] text-muted-foreground">
+                  NO SNAPSHOTS YET
+                </div>
+              )}
+              {snapshots.map(snapshot => (
+                <div
+                  key={snapshot.id}
+                  className={cn(
+                    'group flex items-start justify-between gap-2 p-2 border cursor-pointer',
+                    snapshot.id === selectedId ? 'border-ring bg-muted/50' : 'border-transparent hover:bg-muted/30'
+                  )}
+                  onClick={() => handleSelect(snapshot.id)}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="font-sans text-xs font-bold truncate">{snapshot.name}</div>
+                    <div className="font-mono text-[9px] text-muted-foreground">
+                      {snapshot.kind === 'auto' ? 'AUTO' : 'MANUAL'} • {new Date(snapshot.createdAt).toLocaleString()}
+                    </div>
+                    <div className="font-mono text-[9px] text-muted-foreground">
+                      {isCanvasSealed(snapshot.canvas)
+                        ? 'ENCRYPTED WITH AN EARLIER PASSPHRASE'
+                        : `${snapshot.canvas.links.length} LINKS • ${snapshot.canvas.connections.length} CONNECTIONS`}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 rounded-none opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDelete(snapshot)
+                    }}
+                  >
+                    <Trash2 size={10} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex flex-col gap-2 min-h-0">
+            <div className="flex-1 border border-border min-h-0">
+              {isSelectedSealed ? (
+                <div className="h-full flex items-center justify-center font-mono text-xs text-muted-foreground">
+                  THIS SNAPSHOT CANNOT BE DECRYPTED
+                </div>
+              ) : selected ? (
+                <ReadOnlyCanvas
+                  key={selected.id}
+                  canvas={selected.canvas}
+                  selectable
+                  onSelectionChange={setSelectedNodeIds}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center font-mono text-xs text-muted-foreground">
+                  SELECT A SNAPSHOT TO PREVIEW
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-mono text-[10px] text-muted-foreground">
+                {selected ? 'CLICK OR SHIFT-DRAG TO SELECT ITEMS TO COPY' : ''}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!selected || selectedNodeIds.length === 0}
+                  onClick={handleCopyNodes}
+                  className="rounded-none border-2 text-xs gap-2"
+                >
+                  <Copy size={12} />
+                  Copy {selectedNodeIds.length > 0 ? selectedNodeIds.length : ''} Selected
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!selected || isSelectedSealed}
+                  onClick={handleRestore}
+                  className="rounded-none text-xs gap-2"
+                >
+                  <RotateCcw size={12} />
+                  Restore Version
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
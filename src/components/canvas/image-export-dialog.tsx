@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { Image as ImageIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { loadFavicons, renderCanvasSvg, svgToPng, type ImageBackground } from '@/lib/canvas-image'
+import { extractCanvasItems } from '@/lib/canvas-selection'
+import { downloadFile, slugify } from '@/lib/utils'
+import { useCanvasStore } from '@/store/canvas-store'
+
+type ImageScope = 'canvas' | 'selection'
+type ImageFormat = 'svg' | 'png'
+
+const SCALES = [1, 2, 3]
+
+interface ImageExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Nodes selected on the canvas when the dialog was opened
+  selectedIds: string[]
+}
+
+/**
+ * Save the canvas, or the selected nodes, as an SVG or PNG image
+ */
+export default function ImageExportDialog({ isOpen, onClose, selectedIds }: ImageExportDialogProps) {
+  const [scope, setScope] = useState<ImageScope>('canvas')
+  const [format, setFormat] = useState<ImageFormat>('png')
+  const [scale, setScale] = useState(2)
+  const [background, setBackground] = useState<ImageBackground>('grid')
+  const [isExporting, setIsExporting] = useState(false)
+
+  const hasSelection = selectedIds.length > 0
+  const effectiveScope = hasSelection ? scope : 'canvas'
+
+  const handleExport = async () => {
+    const canvas = useCanvasStore.getState().canvas
+    if (!canvas) return
+
+    setIsExporting(true)
+    try {
+      const items = effectiveScope === 'selection'
+        ? extractCanvasItems(canvas, selectedIds)
+        : { links: canvas.links, groups: canvas.groups || [], connections: canvas.connections }
+      const favicons = await loadFavicons(items.links)
+
+      const date = new Date().toISOString().split('T')[0]
+      const baseName = `${slugify(canvas.name)}${effectiveScope === 'selection' ? '-selection' : ''}-${date}`
+
+      if (format === 'svg') {
+        // SVG scales on its own, so it is always written at 1x
+        downloadFile(renderCanvasSvg(items, { background, favicons }), `${baseName}.svg`, 'image/svg+xml')
+      } else {
+        const png = await svgToPng(renderCanvasSvg(items, { background, favicons, scale }))
+        downloadFile(png, `${baseName}.png`, 'image/png')
+      }
+      onClose()
+    } catch (error) {
+      console.error('Image export failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Image export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const optionButton = (isActive: boolean, label: string, onClick: () => void, disabled = false) => (
+    <Button
+      key={label}
+      type="button"
+      size="sm"
+      variant={isActive ? 'default' : 'outline'}
+      className="rounded-none text-xs font-mono"
+      onClick={onClick}
+      disabled={disabled}
+    >
+      {label}
+    </Button>
+  )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !isExporting && onClose()}>
+      <DialogContent className="rounded-none border-2 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <ImageIcon size={16} />
+            Export Image
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            Link cards, group frames and connections, cropped to the content. Cards stay clickable in SVG.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Area</div>
+            <div className="grid grid-cols-2 gap-1">
+              {optionButton(effectiveScope === 'canvas', 'Whole Canvas', () => setScope('canvas'))}
+              {optionButton(effectiveScope === 'selection', `Selection (${selectedIds.length})`, () => setScope('selection'), !hasSelection)}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Format</div>
+            <div className="grid grid-cols-2 gap-1">
+              {optionButton(format === 'png', 'PNG', () => setFormat('png'))}
+              {optionButton(format === 'svg', 'SVG', () => setFormat('svg'))}
+            </div>
+          </div>
+
+          {format === 'png' && (
+            <div className="space-y-1">
+              <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Scale</div>
+              <div className="grid grid-cols-3 gap-1">
+                {SCALES.map(value => optionButton(scale === value, `${value}x`, () => setScale(value)))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Background</div>
+            <div className="grid grid-cols-2 gap-1">
+              {optionButton(background === 'grid', 'Blueprint Grid', () => setBackground('grid'))}
+              {optionButton(background === 'transparent', 'Transparent', () => setBackground('transparent'))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isExporting}
+            className="rounded-none border-2"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="rounded-none"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,371 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Upload, KeyRound } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { importData, isEncryptedBackup, previewImport } from '@/lib/storage'
+import {
+  getDefaultResolution,
+  type CanvasImportPreview,
+  type ConflictResolution,
+  type EntityChanges,
+  type ImportMode,
+  type ImportPreview,
+} from '@/lib/import-merge'
+import { cn } from '@/lib/utils'
+
+interface ImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+const MODES: { value: ImportMode; label: string; hint: string }[] = [
+  { value: 'merge', label: 'Merge', hint: 'Add new canvases and resolve ones that already exist' },
+  { value: 'copy', label: 'As copies', hint: 'Import every canvas alongside your own under a new id' },
+  { value: 'replace', label: 'Replace all', hint: 'Discard local canvases and use the file as-is' },
+]
+
+// A single exported canvas is always added next to the local ones
+const CANVAS_MODES: { value: ImportMode; label: string; hint: string }[] = [
+  { value: 'copy', label: 'As new canvas', hint: 'Import under a fresh id, leaving any original untouched' },
+  { value: 'merge', label: 'Keep id', hint: "Use the file's id and choose what to keep if that canvas exists here" },
+]
+
+const RESOLUTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'local', label: 'Keep local' },
+  { value: 'incoming', label: 'Keep incoming' },
+  { value: 'both', label: 'Keep both' },
+]
+
+function formatChanges(changes: EntityChanges, noun: string): string {
+  const parts = []
+  if (changes.added.length > 0) parts.push(`+${changes.added.length} ${noun}`)
+  if (changes.changed.length > 0) parts.push(`~${changes.changed.length} changed`)
+  return parts.length > 0 ? parts.join(' ') : `no ${noun} changes`
+}
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : 'unknown'
+}
+
+export default function ImportDialog({ isOpen, onClose, onImported }: ImportDialogProps) {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [fileContents, setFileContents] = useState<string | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({})
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  // Password for a protected backup, and whether one is still needed to preview it
+  const [password, setPassword] = useState('')
+  const [needsPassword, setNeedsPassword] = useState(false)
+
+  const reset = () => {
+    setFileName('')
+    setFileContents(null)
+    setPreview(null)
+    setPassword('')
+    setNeedsPassword(false)
+    setMode('merge')
+    setResolutions({})
+    setExpandedId(null)
+  }
+
+  const handleClose = () => {
+    onClose()
+    // Reset state after a short delay to allow dialog to close
+    setTimeout(reset, 200)
+  }
+
+  const loadPreview = async (text: string, filePassword?: string) => {
+    const nextPreview = await previewImport(text, filePassword)
+    setNeedsPassword(false)
+    setPreview(nextPreview)
+    setMode(nextPreview.scope === 'canvas' ? 'copy' : 'merge')
+    setResolutions(
+      Object.fromEntries(
+        nextPreview.canvases
+          .filter(entry => entry.status === 'conflict')
+          .map(entry => [entry.id, getDefaultResolution(entry)])
+      )
+    )
+  }
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!fileContents || !password) return
+
+    try {
+      await loadPreview(fileContents, password)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not decrypt backup')
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      setFileName(file.name)
+      setFileContents(text)
+      if (isEncryptedBackup(text)) {
+        setPassword('')
+        setNeedsPassword(true)
+        return
+      }
+      await loadPreview(text)
+    } catch (error) {
+      console.error('Failed to read import file:', error)
+      setFileContents(null)
+      toast.error('Invalid import file format')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!fileContents) return
+
+    setIsImporting(true)
+    try {
+      const written = await importData(fileContents, { mode, resolutions, password: password || undefined })
+      if (preview?.scope === 'canvas' && written.length === 1) {
+        const [imported] = written
+        toast.success(`Imported "${imported.name}"`, {
+          action: { label: 'Open', onClick: () => router.push(`/canvas/${imported.id}`) },
+        })
+      } else {
+        toast.success('Import complete')
+      }
+      onImported()
+      handleClose()
+    } catch (error) {
+      console.error('Import failed:', error)
+      toast.error('Import failed')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const modes = preview?.scope === 'canvas' ? CANVAS_MODES : MODES
+
+  const renderCanvasRow = (entry: CanvasImportPreview) => {
+    const isExpanded = expandedId === entry.id
+    const showResolution = mode === 'merge' && entry.status === 'conflict'
+
+    return (
+      <div key={entry.id} className="border border-border p-2 space-y-2">
+        <button
+          type="button"
+          className="w-full flex items-center justify-between gap-2 text-left"
+          onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+        >
+          <span className="font-sans text-sm font-bold truncate">{entry.name}</span>
+          <span
+            className={cn(
+              'font-mono text-[9px] uppercase tracking-wider px-1 border',
+              entry.status === 'new' ? 'border-ring text-ring' : 'border-amber-600 text-amber-600'
+            )}
+          >
+            {entry.status === 'new' ? 'NEW' : 'EXISTS'}
+          </span>
+        </button>
+
+        <div className="font-mono text-[10px] text-muted-foreground">
+          {formatChanges(entry.links, 'links')} • {formatChanges(entry.connections, 'connections')}
+        </div>
+
+        {entry.status === 'conflict' && (
+          <div className="font-mono text-[10px] text-muted-foreground">
+            LOCAL {formatDate(entry.localUpdatedAt)} • FILE {formatDate(entry.incomingUpdatedAt)}
+            {entry.newer !== 'same' && ` • ${entry.newer === 'incoming' ? 'FILE' : 'LOCAL'} IS NEWER`}
+          </div>
+        )}
+
+        {showResolution && (
+          <div className="grid grid-cols-3 gap-1">
+            {RESOLUTIONS.map(option => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={resolutions[entry.id] === option.value ? 'default' : 'outline'}
+                className="rounded-none h-6 text-[10px] font-mono"
+                onClick={() => setResolutions(prev => ({ ...prev, [entry.id]: option.value }))}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {isExpanded && (
+          <div className="max-h-32 overflow-y-auto border border-border bg-muted/30 p-2 space-y-1 font-mono text-[10px]">
+            {entry.links.added.map((title, index) => (
+              <div key={`la-${index}`} className="truncate">+ LINK {title}</div>
+            ))}
+            {entry.links.changed.map((title, index) => (
+              <div key={`lc-${index}`} className="truncate text-amber-600">~ LINK {title}</div>
+            ))}
+            {entry.connections.added.map((label, index) => (
+              <div key={`ca-${index}`} className="truncate">+ CONNECTION {label}</div>
+            ))}
+            {entry.connections.changed.map((label, index) => (
+              <div key={`cc-${index}`} className="truncate text-amber-600">~ CONNECTION {label}</div>
+            ))}
+            {entry.links.added.length + entry.links.changed.length +
+              entry.connections.added.length + entry.connections.changed.length === 0 && (
+              <div className="text-muted-foreground">No link or connection changes</div>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="rounded-none border-2 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <Upload size={16} />
+            Import Canvas Data
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            Review what a backup file contains before bringing it in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        {needsPassword ? (
+          <form onSubmit={handleUnlock} className="py-4 space-y-3">
+            <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground truncate flex items-center gap-2">
+              <KeyRound size={12} />
+              {fileName} • PASSWORD-PROTECTED
+            </div>
+            <Input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Backup password"
+              className="rounded-none border-2 font-mono"
+              autoFocus
+            />
+            <Button type="submit" disabled={!password} className="rounded-none w-full">
+              Decrypt
+            </Button>
+          </form>
+        ) : !preview ? (
+          <div className="text-center py-8 space-y-4">
+            <p className="text-sm text-muted-foreground font-mono">
+              Choose a canvas backup or exported canvas (.json) to preview.
+            </p>
+            <Button
+              variant="outline"
+              className="rounded-none border-2"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose File
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground truncate">
+              {fileName} • {preview.scope === 'canvas' ? 'SINGLE CANVAS' : `${preview.canvases.length} CANVASES`}
+            </div>
+
+            <div className={cn('grid gap-1', modes.length === 2 ? 'grid-cols-2' : 'grid-cols-3')}>
+              {modes.map(option => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  size="sm"
+                  variant={mode === option.value ? 'default' : 'outline'}
+                  className="rounded-none text-xs font-mono"
+                  onClick={() => setMode(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground font-mono">
+              {modes.find(option => option.value === mode)?.hint}
+            </p>
+
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {preview.canvases.map(renderCanvasRow)}
+            </div>
+
+            {preview.repairs.length > 0 && (
+              <div className="max-h-32 overflow-y-auto border border-amber-600/40 bg-amber-50/50 p-2 space-y-2 font-mono text-[10px]">
+                {preview.repairs.map((report, index) => (
+                  <div key={`${report.id}-${index}`} className="space-y-0.5">
+                    <div className="font-bold">
+                      {report.name} {report.errors.length > 0 ? '• SKIPPED' : '• REPAIRED'}
+                    </div>
+                    {report.errors.map((error, i) => (
+                      <div key={`e-${i}`} className="text-destructive">{error}</div>
+                    ))}
+                    {report.fixes.map((fix, i) => (
+                      <div key={`f-${i}`} className="text-amber-700">{fix}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {mode === 'replace' && preview.localOnly.length > 0 && (
+              <div className="border border-destructive/30 bg-destructive/10 p-2 font-mono text-[10px] text-destructive">
+                WILL BE REMOVED: {preview.localOnly.map(canvas => canvas.name).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={isImporting}
+            className="rounded-none border-2"
+          >
+            Cancel
+          </Button>
+          {preview && (
+            <Button
+              onClick={handleImport}
+              disabled={isImporting}
+              className="rounded-none"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
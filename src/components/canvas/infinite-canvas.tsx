@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useState, Suspense } from 'react'
 import dynamic from 'next/dynamic'
+import { toast } from 'sonner'
 
 // Dynamic import following bundle-dynamic-imports rule
 const ReactFlow = dynamic(() => import('@xyflow/react').then(mod => ({ default: mod.ReactFlow })), {
@@ -29,6 +30,7 @@ import {
   BackgroundVariant,
   Panel,
   ReactFlowInstance,
+  type OnSelectionChangeParams,
 } from '@xyflow/react'
 
 import '@xyflow/react/dist/style.css'
@@ -38,14 +40,41 @@ import ConnectionEdge from './connection-edge'
 import GroupNode from './group-node'
 import CreateGroupDialog from './create-group-dialog'
 import GroupPropertiesDialog from './group-properties-dialog'
-import CanvasToolbar from './canvas-toolbar'
+import CanvasToolbar, { type ExportFormat, type ExportScope } from './canvas-toolbar'
 import AddLinkDialog from './add-link-dialog'
 import MetadataRefreshDialog from './metadata-refresh-dialog'
+import ImportDialog from './import-dialog'
+import ImageExportDialog from './image-export-dialog'
+import LinkImportDialog, { type LinkImportFormat } from './link-import-dialog'
+import SaveConflictDialog from './save-conflict-dialog'
+import HistoryPanel from './history-panel'
+import TrashDialog from './trash-dialog'
+import ShareDialog from './share-dialog'
+import EncryptionDialog from './encryption-dialog'
+import PassphraseDialog from './passphrase-dialog'
+import CanvasUnlock from './canvas-unlock'
+import SaveStatusIndicator from './save-status-indicator'
+import PresenceAvatars from './presence-avatars'
+import CollaborationOverlay from './collaboration-overlay'
+import { toFlowNodes, toFlowEdges, type FlowElementHandlers } from './flow-elements'
 import { useCanvasStore } from '@/store/canvas-store'
-import { generateId } from '@/lib/utils'
+import { downloadFile, generateId, slugify } from '@/lib/utils'
 import type { Group, Link } from '@/types'
-import { exportData, importData } from '@/lib/storage'
-import { needsMetadataRefresh, markForMetadataRefresh } from '@/lib/metadata-refresher'
+import {
+  exportBookmarks,
+  exportCanvas,
+  exportData,
+  exportDot,
+  exportEncryptedData,
+  exportGraphml,
+  exportJsonCanvas,
+  exportMarkdown,
+  exportMermaid,
+  exportOpml,
+  exportStaticHtml,
+} from '@/lib/storage'
+import { extractCanvasItems } from '@/lib/canvas-selection'
+import { needsMetadataRefresh, markForMetadataRefresh, drainMetadataQueue } from '@/lib/metadata-refresher'
 
 
 const nodeTypes = {
@@ -67,6 +96,7 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
   const [rfInstance, setRfInstance] = useState<ReactFlowInstance<Node, Edge> | null>(null)
 
   const canvas = useCanvasStore(state => state.canvas)
+  const lockedCanvas = useCanvasStore(state => state.lockedCanvas)
   const updateLink = useCanvasStore(state => state.updateLink)
   const deleteLink = useCanvasStore(state => state.deleteLink)
   const addConnection = useCanvasStore(state => state.addConnection)
@@ -76,6 +106,12 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
   const deleteGroup = useCanvasStore(state => state.deleteGroup)
   const setViewport = useCanvasStore(state => state.setViewport)
   const loadCanvas = useCanvasStore(state => state.loadCanvas)
+  const undo = useCanvasStore(state => state.undo)
+  const redo = useCanvasStore(state => state.redo)
+  const canUndo = useCanvasStore(state => state.past.length > 0)
+  const canRedo = useCanvasStore(state => state.future.length > 0)
+  const beginHistoryBatch = useCanvasStore(state => state.beginHistoryBatch)
+  const endHistoryBatch = useCanvasStore(state => state.endHistoryBatch)
 
   // Group creation state
   const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false)
@@ -91,50 +127,152 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
   
   // Metadata refresh state
   const [isMetadataRefreshOpen, setIsMetadataRefreshOpen] = useState(false)
+
+  // Import state
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [linkImportFormat, setLinkImportFormat] = useState<LinkImportFormat | null>(null)
+
+  // Version history state
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+  const [isEncryptionOpen, setIsEncryptionOpen] = useState(false)
+  const [isBackupPasswordOpen, setIsBackupPasswordOpen] = useState(false)
+  // Nodes to offer for an image export; null while the dialog is closed
+  const [imageExportIds, setImageExportIds] = useState<string[] | null>(null)
   
   // Toolbar handlers
-  const handleExport = useCallback(async () => {
+  const handleExport = useCallback(async (scope: ExportScope) => {
+    const date = new Date().toISOString().split('T')[0]
+    const current = useCanvasStore.getState().canvas
+
     try {
-      const data = await exportData()
-      const blob = new Blob([data], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `canvas-backup-${new Date().toISOString().split('T')[0]}.json`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      if (scope === 'all') {
+        downloadFile(await exportData(), `canvas-backup-${date}.json`, 'application/json')
+      } else if (current && scope === 'canvas') {
+        downloadFile(await exportCanvas(current), `${slugify(current.name)}-${date}.json`, 'application/json')
+      } else if (current) {
+        const selectedIds = (rfInstance?.getNodes() || []).filter(node => node.selected).map(node => node.id)
+        if (selectedIds.length === 0) {
+          toast.error('Select the nodes to export first')
+          return
+        }
+
+        // The selection becomes a canvas of its own
+        const now = new Date().toISOString()
+        const selection = {
+          ...current,
+          ...extractCanvasItems(current, selectedIds),
+          id: generateId(),
+          name: `${current.name} (selection)`,
+          revision: 0,
+          createdAt: now,
+          updatedAt: now,
+        }
+        downloadFile(await exportCanvas(selection), `${slugify(current.name)}-selection-${date}.json`, 'application/json')
+      }
     } catch (error) {
       console.error('Export failed:', error)
+      toast.error('Export failed')
     }
-  }, [])
+  }, [rfInstance])
 
-  const handleImport = useCallback(async () => {
+  const handleExportAs = useCallback(async (format: ExportFormat) => {
+    const current = useCanvasStore.getState().canvas
+    if (!current) return
+
+    const baseName = slugify(current.name)
     try {
-      const input = document.createElement('input')
-      input.type = 'file'
-      input.accept = '.json'
-      input.onchange = async (e) => {
-        const file = (e.target as HTMLInputElement).files?.[0]
-        if (file) {
-          const text = await file.text()
-          await importData(text)
-          // Reload canvas to show imported data
-          loadCanvas(canvasId)
-        }
+      switch (format) {
+        case 'bookmarks':
+          downloadFile(exportBookmarks(current), `${baseName}-bookmarks.html`, 'text/html')
+          break
+        case 'markdown':
+          downloadFile(exportMarkdown(current), `${baseName}.md`, 'text/markdown')
+          break
+        case 'json-canvas':
+          downloadFile(exportJsonCanvas(current), `${baseName}.canvas`, 'application/json')
+          break
+        case 'opml':
+          downloadFile(exportOpml(current), `${baseName}.opml`, 'text/x-opml')
+          break
+        case 'mermaid':
+          downloadFile(exportMermaid(current), `${baseName}.mmd`, 'text/plain')
+          break
+        case 'dot':
+          downloadFile(exportDot(current), `${baseName}.dot`, 'text/vnd.graphviz')
+          break
+        case 'graphml':
+          downloadFile(exportGraphml(current), `${baseName}.graphml`, 'application/graphml+xml')
+          break
+        case 'html':
+          downloadFile(await exportStaticHtml(current), `${baseName}.html`, 'text/html')
+          break
+        case 'image':
+          setImageExportIds((rfInstance?.getNodes() || []).filter(node => node.selected).map(node => node.id))
+          break
       }
-      input.click()
     } catch (error) {
-      console.error('Import failed:', error)
+      console.error('Export failed:', error)
+      toast.error('Export failed')
     }
-  }, [canvasId, loadCanvas])
+  }, [rfInstance])
+
+  const handleExportEncrypted = useCallback(async (password: string) => {
+    const data = await exportEncryptedData(password)
+    downloadFile(data, `canvas-backup-${new Date().toISOString().split('T')[0]}.encrypted.json`, 'application/json')
+  }, [])
+
+  const handleImport = useCallback(() => {
+    setIsImportOpen(true)
+  }, [])
 
   // Initialize canvas
   useEffect(() => {
     loadCanvas(canvasId)
   }, [canvasId, loadCanvas])
 
+  // Write pending changes when the tab is hidden or closed, and when leaving the canvas
+  useEffect(() => {
+    const flush = () => {
+      useCanvasStore.getState().flushPendingSave()
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', flush)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('pagehide', flush)
+      flush()
+    }
+  }, [])
+
+  // Undo / redo keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+
+      // Leave text editing shortcuts to form fields
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
   // Check if links need metadata refresh on canvas load
   const checkForMetadataRefresh = useCallback(() => {
     const currentCanvas = useCanvasStore.getState().canvas
@@ -144,6 +282,9 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
     if (linksNeedingRefresh.length > 0) {
       console.log(`Found ${linksNeedingRefresh.length} links needing metadata refresh`)
     }
+
+    // Pick up links an import queued for this canvas
+    drainMetadataQueue()
   }, [])
 
   // Sync store -> local state
@@ -151,71 +292,47 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
     if (canvas) {
       // Check for metadata refresh needs
       checkForMetadataRefresh()
-      // Map links to nodes
-      const linkNodes: Node[] = canvas.links.map(link => ({
-        id: link.id,
-        type: 'linkCard',
-        position: { x: link.x, y: link.y },
-        data: {
-          ...link,
-          onDelete: (id: string) => deleteLink(id),
-          onRefreshMetadata: (id: string) => markForMetadataRefresh(id)
-        },
-      }))
-
-      // Map groups to nodes (render behind links)
-      const groupNodes: Node[] = (canvas.groups || []).map(group => ({
-        id: group.id,
-        type: 'group',
-        position: { x: group.x, y: group.y },
-        data: {
-          ...group,
-          onDelete: (id: string) => deleteGroup(id),
-          onUpdate: (id: string, updates: Partial<Group>) => updateGroup(id, updates),
-          onEdit: (group: Group) => {
-            setEditingGroup(group)
-            setIsGroupPropertiesOpen(true)
-          }
+      const handlers: FlowElementHandlers = {
+        onDeleteLink: (id: string) => deleteLink(id),
+        onRefreshMetadata: (id: string) => markForMetadataRefresh(id),
+        onDeleteGroup: (id: string) => deleteGroup(id),
+        onUpdateGroup: (id: string, updates: Partial<Group>) => updateGroup(id, updates),
+        onEditGroup: (group: Group) => {
+          setEditingGroup(group)
+          setIsGroupPropertiesOpen(true)
         },
-      }))
-
-      // Groups should render behind links, so we put them first
-      const initialNodes: Node[] = [...groupNodes, ...linkNodes]
-      setNodes(initialNodes)
-
-      // Map connections to edges
-      const initialEdges: Edge[] = canvas.connections.map(conn => ({
-        id: conn.id,
-        source: conn.sourceId,
-        target: conn.targetId,
-        type: 'default',
-        animated: conn.style === 'animated',
-        style: conn.style === 'dashed' ? { strokeDasharray: '5,5' } : undefined,
-        data: {
-          onDelete: (id: string) => deleteConnection(id)
-        }
-      }))
-      setEdges(initialEdges)
+        onDeleteConnection: (id: string) => deleteConnection(id),
+      }
+
+      setNodes(toFlowNodes(canvas, handlers))
+      setEdges(toFlowEdges(canvas, handlers))
     }
   }, [canvas, setNodes, setEdges, deleteLink, deleteConnection, deleteGroup, updateGroup, checkForMetadataRefresh])
 
-  // Node drag handler
+  // Node drag handlers - a whole drag is recorded as a single undo step
+  const onNodeDragStart = useCallback(() => {
+    beginHistoryBatch()
+  }, [beginHistoryBatch])
+
   const onNodeDragStop = useCallback(
-    (event: React.MouseEvent, node: Node) => {
+    (event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
       // Handle different node types
-      if (node.type === 'linkCard') {
-        updateLink(node.id, {
-          x: node.position.x,
-          y: node.position.y,
-        })
-      } else if (node.type === 'group') {
-        updateGroup(node.id, {
-          x: node.position.x,
-          y: node.position.y,
-        })
+      for (const dragged of draggedNodes.length > 0 ? draggedNodes : [node]) {
+        if (dragged.type === 'linkCard') {
+          updateLink(dragged.id, {
+            x: dragged.position.x,
+            y: dragged.position.y,
+          })
+        } else if (dragged.type === 'group') {
+          updateGroup(dragged.id, {
+            x: dragged.position.x,
+            y: dragged.position.y,
+          })
+        }
       }
+      endHistoryBatch()
     },
-    [updateLink, updateGroup]
+    [updateLink, updateGroup, endHistoryBatch]
   )
 
   // Connection handler
@@ -234,6 +351,25 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
     [addConnection]
   )
 
+  // Share the pointer position and selection with collaborators
+  const onMouseMove = useCallback(
+    (event: React.MouseEvent) => {
+      if (!rfInstance) return
+      useCanvasStore.getState().setCursor(
+        rfInstance.screenToFlowPosition({ x: event.clientX, y: event.clientY })
+      )
+    },
+    [rfInstance]
+  )
+
+  const onMouseLeave = useCallback(() => {
+    useCanvasStore.getState().setCursor(null)
+  }, [])
+
+  const onSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+    useCanvasStore.getState().setSelection(selected.map(node => node.id))
+  }, [])
+
   // Viewport change handler
   const onMoveEnd = useCallback(
     (event: MouseEvent | TouchEvent | null, viewport: Viewport) => {
@@ -363,6 +499,10 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
     setIsMetadataRefreshOpen(true)
   }, [])
 
+  if (lockedCanvas) {
+    return <CanvasUnlock canvas={lockedCanvas} />
+  }
+
   if (!canvas) {
     return (
       <div className="flex items-center justify-center h-screen w-full bg-background text-muted-foreground font-mono">
@@ -387,8 +527,20 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
           setIsAddLinkOpen(true)
         }}
         onExport={handleExport}
+        onExportEncrypted={() => setIsBackupPasswordOpen(true)}
+        onExportAs={handleExportAs}
         onImport={handleImport}
+        onImportLinks={setLinkImportFormat}
         onMetadataRefresh={handleMetadataRefresh}
+        onHistory={() => setIsHistoryOpen(true)}
+        onTrash={() => setIsTrashOpen(true)}
+        onShare={() => setIsShareOpen(true)}
+        onEncryption={() => setIsEncryptionOpen(true)}
+        isEncrypted={Boolean(canvas.encryption)}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
       />
       
       <Suspense fallback={
@@ -401,6 +553,7 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onNodeDragStart={onNodeDragStart}
         onNodeDragStop={onNodeDragStop}
         onConnect={onConnect}
         onMoveEnd={onMoveEnd}
@@ -408,6 +561,9 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
         onDrop={onDrop}
         onContextMenu={onContextMenu}
         onPaneClick={onPaneClick}
+        onMouseMove={onMouseMove}
+        onMouseLeave={onMouseLeave}
+        onSelectionChange={onSelectionChange}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         defaultViewport={canvas.viewport}
@@ -432,9 +588,13 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
             <p className="font-mono text-xs text-muted-foreground">
               {nodes.length} NODES • {edges.length} CONNECTIONS
             </p>
+            <SaveStatusIndicator />
+            <PresenceAvatars />
           </div>
         </Panel>
 
+        <CollaborationOverlay />
+
         <Controls
           className="!bg-background !border !border-border !rounded-none !shadow-none [&>button]:!border-b [&>button]:!border-border [&>button]:!rounded-none [&>button]:!fill-foreground hover:[&>button]:!bg-muted"
           showInteractive={false}
@@ -505,6 +665,63 @@ export default function InfiniteCanvas({ canvasId }: InfiniteCanvasProps) {
         isOpen={isMetadataRefreshOpen}
         onClose={() => setIsMetadataRefreshOpen(false)}
       />
+
+      {/* Import Dialog */}
+      <ImportDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={() => loadCanvas(canvasId)}
+      />
+
+      {/* Image Export */}
+      <ImageExportDialog
+        isOpen={imageExportIds !== null}
+        onClose={() => setImageExportIds(null)}
+        selectedIds={imageExportIds || []}
+      />
+
+      {/* Bookmark and other link imports */}
+      <LinkImportDialog
+        format={linkImportFormat}
+        onClose={() => setLinkImportFormat(null)}
+        onImported={() => window.requestAnimationFrame(() => rfInstance?.fitView({ duration: 300 }))}
+      />
+
+      {/* Version History Panel */}
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
+
+      {/* Trash */}
+      <TrashDialog
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        canvasId={canvasId}
+      />
+
+      {/* Share Link */}
+      <ShareDialog
+        isOpen={isShareOpen}
+        onClose={() => setIsShareOpen(false)}
+      />
+
+      {/* Passphrase Protection */}
+      <EncryptionDialog
+        isOpen={isEncryptionOpen}
+        onClose={() => setIsEncryptionOpen(false)}
+      />
+      <PassphraseDialog
+        isOpen={isBackupPasswordOpen}
+        onClose={() => setIsBackupPasswordOpen(false)}
+        title="Password-Protected Backup"
+        description="Exports every canvas in a file that can only be imported with this password."
+        submitLabel="Export"
+        onSubmit={handleExportEncrypted}
+      />
+
+      {/* Save Conflict Dialog */}
+      <SaveConflictDialog />
     </div>
   )
 }
@@ -0,0 +1,354 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { parseBookmarksHtml } from '@/lib/bookmarks-html'
+import {
+  connectRelations,
+  foldersToSections,
+  getFreeOrigin,
+  layoutSections,
+  moveItemsTo,
+  type LinkRelation,
+  type LinkSection,
+} from '@/lib/canvas-layout'
+import type { CanvasItems } from '@/lib/canvas-selection'
+import { parseJsonCanvas } from '@/lib/json-canvas'
+import { parseMarkdown } from '@/lib/markdown'
+import { parseOpml } from '@/lib/opml'
+import { parseInstapaper, parsePinboard, parsePocket, parseRaindrop } from '@/lib/read-later'
+import { queueMetadataRefresh } from '@/lib/metadata-refresher'
+import { saveCanvas } from '@/lib/storage'
+import { generateId } from '@/lib/utils'
+import { useCanvasStore } from '@/store/canvas-store'
+import type { Canvas } from '@/types'
+
+// Files from other tools that can be turned into links on a canvas
+export type LinkImportFormat =
+  | 'bookmarks'
+  | 'markdown'
+  | 'json-canvas'
+  | 'opml'
+  | 'pocket'
+  | 'raindrop'
+  | 'pinboard'
+  | 'instapaper'
+
+interface ParsedLinkImport {
+  // Suggested name for a new canvas
+  name: string
+  linkCount: number
+  groupCount: number
+  // Entries the canvas has no use for, such as notes
+  skippedCount?: number
+  // Place the items on a canvas; without an origin, files that carry positions keep them
+  arrange: (origin?: { x: number; y: number }) => CanvasItems
+}
+
+interface LinkImportSource {
+  title: string
+  description: string
+  hint: string
+  accept: string
+  parse: (text: string, fileName: string) => ParsedLinkImport
+}
+
+// Files without positions are laid out as a grid per section
+function arrangeSections(name: string, sections: LinkSection[], relations: LinkRelation[] = []): ParsedLinkImport {
+  return {
+    name,
+    linkCount: sections.reduce((total, section) => total + section.links.length, 0),
+    groupCount: sections.filter(section => section.name).length,
+    arrange: (origin) => {
+      const items = layoutSections(sections, origin)
+      return { links: items.links, groups: items.groups || [], connections: connectRelations(items.links, relations) }
+    },
+  }
+}
+
+function fileTitle(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '')
+}
+
+const SOURCES: Record<LinkImportFormat, LinkImportSource> = {
+  bookmarks: {
+    title: 'Import Browser Bookmarks',
+    description: 'Folders become groups.',
+    hint: 'Choose a bookmarks file (.html) exported from Chrome, Firefox, Safari or Edge.',
+    accept: '.html,.htm',
+    parse: (text) => {
+      const root = parseBookmarksHtml(text)
+      return arrangeSections(root.title, foldersToSections(root))
+    },
+  },
+  markdown: {
+    title: 'Import Markdown',
+    description: 'Headings become groups and "related to" sub-bullets become connections.',
+    hint: 'Choose a Markdown document (.md), such as an awesome-list or a canvas exported as Markdown.',
+    accept: '.md,.markdown,.txt',
+    parse: (text, fileName) => {
+      const document = parseMarkdown(text)
+      return arrangeSections(document.title || fileTitle(fileName), document.sections, document.relations)
+    },
+  },
+  'json-canvas': {
+    title: 'Import JSON Canvas',
+    description: 'Link nodes, groups and edges keep their positions, sizes, colors and labels. Text and file nodes, and links that are not web pages, are skipped.',
+    hint: 'Choose a JSON Canvas file (.canvas), such as one from Obsidian.',
+    accept: '.canvas,.json',
+    parse: (text, fileName) => {
+      const items = parseJsonCanvas(text)
+      return {
+        name: fileTitle(fileName),
+        linkCount: items.links.length,
+        groupCount: items.groups.length,
+        skippedCount: items.skipped,
+        arrange: (origin) => origin ? moveItemsTo(items, origin) : items,
+      }
+    },
+  },
+  opml: {
+    title: 'Import OPML',
+    description: 'Nested outlines become groups; outlines with a site or feed URL become links.',
+    hint: 'Choose an OPML file (.opml) exported from an RSS reader or outliner.',
+    accept: '.opml,.xml',
+    parse: (text) => {
+      const root = parseOpml(text)
+      return arrangeSections(root.title, foldersToSections(root))
+    },
+  },
+  pocket: {
+    title: 'Import from Pocket',
+    description: 'Links are grouped by their first tag, or by list. Excerpts, saved dates and tags go into the description.',
+    hint: 'Choose the Pocket export file (.csv, or ril_export.html from older exports).',
+    accept: '.csv,.html,.htm',
+    parse: (text) => arrangeSections('Pocket', parsePocket(text)),
+  },
+  raindrop: {
+    title: 'Import from Raindrop.io',
+    description: 'Collections become groups. Notes, excerpts, saved dates and tags go into the description.',
+    hint: 'Choose a Raindrop.io CSV export (.csv).',
+    accept: '.csv',
+    parse: (text) => arrangeSections('Raindrop.io', parseRaindrop(text)),
+  },
+  pinboard: {
+    title: 'Import from Pinboard',
+    description: 'Links are grouped by their first tag. Notes, saved dates and other tags go into the description.',
+    hint: 'Choose a Pinboard export (.json or .html).',
+    accept: '.json,.html,.htm',
+    parse: (text) => arrangeSections('Pinboard', parsePinboard(text)),
+  },
+  instapaper: {
+    title: 'Import from Instapaper',
+    description: 'Folders become groups. Highlights, saved dates and tags go into the description.',
+    hint: 'Choose an Instapaper CSV export (.csv).',
+    accept: '.csv',
+    parse: (text) => arrangeSections('Instapaper', parseInstapaper(text)),
+  },
+}
+
+type ImportTarget = 'new' | 'current'
+
+const TARGETS: { value: ImportTarget; label: string; hint: string }[] = [
+  { value: 'new', label: 'New canvas', hint: 'Create a canvas holding only the imported links' },
+  { value: 'current', label: 'This canvas', hint: 'Add the links next to what is already on this canvas' },
+]
+
+interface LinkImportDialogProps {
+  format: LinkImportFormat | null
+  onClose: () => void
+  onImported?: () => void
+}
+
+/**
+ * Bring links from another tool's export into a new or the open canvas.
+ * Folders and headings become groups, and link metadata is fetched in the background.
+ */
+export default function LinkImportDialog({ format, onClose, onImported }: LinkImportDialogProps) {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ParsedLinkImport | null>(null)
+  const [target, setTarget] = useState<ImportTarget>('new')
+  const [canvasName, setCanvasName] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+
+  const source = format ? SOURCES[format] : null
+
+  const reset = () => {
+    setFileName('')
+    setParsed(null)
+    setTarget('new')
+    setCanvasName('')
+  }
+
+  const handleClose = () => {
+    onClose()
+    // Reset state after a short delay to allow dialog to close
+    setTimeout(reset, 200)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !source) return
+
+    try {
+      const result = source.parse(await file.text(), file.name)
+      if (result.linkCount === 0) {
+        toast.error('No links found in this file')
+        return
+      }
+      setFileName(file.name)
+      setParsed(result)
+      setCanvasName(result.name)
+    } catch (error) {
+      console.error('Failed to read import file:', error)
+      toast.error(error instanceof Error ? error.message : 'Invalid import file format')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!parsed) return
+
+    setIsImporting(true)
+    try {
+      if (target === 'new') {
+        const items = parsed.arrange()
+        const now = new Date().toISOString()
+        const canvas: Canvas = {
+          id: generateId(),
+          name: canvasName.trim() || parsed.name,
+          ...items,
+          viewport: { x: 0, y: 0, zoom: 1 },
+          revision: 0,
+          createdAt: now,
+          updatedAt: now,
+        }
+        await saveCanvas(canvas)
+        queueMetadataRefresh(canvas.id, canvas.links.map(link => link.id))
+        toast.success(`Imported ${canvas.links.length} links into "${canvas.name}"`)
+        router.push(`/canvas/${canvas.id}`)
+      } else {
+        const { canvas, addItems } = useCanvasStore.getState()
+        if (!canvas) return
+
+        const items = parsed.arrange(getFreeOrigin(canvas))
+        addItems(items)
+        queueMetadataRefresh(canvas.id, items.links.map(link => link.id))
+        toast.success(`Imported ${items.links.length} links`)
+      }
+      onImported?.()
+      handleClose()
+    } catch (error) {
+      console.error('Import failed:', error)
+      toast.error('Import failed')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={Boolean(format)} onOpenChange={open => !open && !isImporting && handleClose()}>
+      <DialogContent className="rounded-none border-2 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <Upload size={16} />
+            {source?.title}
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            {source?.description} Titles, images and descriptions are fetched a few links at a time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={source?.accept}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        {!parsed ? (
+          <div className="text-center py-8 space-y-4">
+            <p className="text-sm text-muted-foreground font-mono">{source?.hint}</p>
+            <Button
+              variant="outline"
+              className="rounded-none border-2"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose File
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground truncate">
+              {fileName} • {parsed.linkCount} LINKS • {parsed.groupCount} GROUPS
+              {parsed.skippedCount ? ` • ${parsed.skippedCount} SKIPPED` : ''}
+            </div>
+
+            <div className="grid grid-cols-2 gap-1">
+              {TARGETS.map(option => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  size="sm"
+                  variant={target === option.value ? 'default' : 'outline'}
+                  className="rounded-none text-xs font-mono"
+                  onClick={() => setTarget(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground font-mono">
+              {TARGETS.find(option => option.value === target)?.hint}
+            </p>
+
+            {target === 'new' && (
+              <Input
+                value={canvasName}
+                onChange={(e) => setCanvasName(e.target.value)}
+                placeholder="Canvas name"
+                className="rounded-none border-2 font-mono"
+              />
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={isImporting}
+            className="rounded-none border-2"
+          >
+            Cancel
+          </Button>
+          {parsed && (
+            <Button
+              onClick={handleImport}
+              disabled={isImporting}
+              className="rounded-none"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
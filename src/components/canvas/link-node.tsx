@@ -10,6 +10,7 @@ import type { Link } from "@/types";
 import { cn } from "@/lib/utils";
 
 interface LinkNodeData extends Link, Record<string, unknown> {
+  readOnly?: boolean;
   onDelete?: (id: string) => void;
   onRefreshMetadata?: (id: string) => void;
 }
@@ -153,7 +154,7 @@ function LinkNode({ data, selected }: NodeProps<LinkNode>) {
       {/* Footer / Actions */}
       <CardFooter className="p-2 bg-muted/10 flex items-center justify-between gap-1">
         {/* Left actions */}
-        <div className="flex items-center gap-1">
+        <div className={cn("flex items-center gap-1", data.readOnly && "invisible")}>
           {/* Show refresh button if metadata is stale */}
           {data.needsMetadataRefresh && (
             <Button
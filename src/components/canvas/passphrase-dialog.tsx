@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { KeyRound } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+// Short passphrases are the weak point of PBKDF2, whatever the iteration count
+const MIN_PASSPHRASE_LENGTH = 8
+
+interface PassphraseDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  description: string
+  submitLabel: string
+  // Resolves once the passphrase is used; errors are shown and the dialog stays open
+  onSubmit: (passphrase: string) => Promise<void>
+}
+
+/**
+ * Ask for a new passphrase, typed twice
+ */
+export default function PassphraseDialog({
+  isOpen,
+  onClose,
+  title,
+  description,
+  submitLabel,
+  onSubmit,
+}: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+
+  const isTooShort = passphrase.length < MIN_PASSPHRASE_LENGTH
+  const isMismatch = confirmation.length > 0 && confirmation !== passphrase
+
+  const handleClose = () => {
+    onClose()
+    setPassphrase('')
+    setConfirmation('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isTooShort || confirmation !== passphrase) return
+
+    setIsWorking(true)
+    try {
+      await onSubmit(passphrase)
+      handleClose()
+    } catch (error) {
+      console.error('Passphrase action failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !isWorking && handleClose()}>
+      <DialogContent className="rounded-none border-2 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <KeyRound size={16} />
+            {title}
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="passphrase" className="font-mono text-xs uppercase tracking-wider">
+              Passphrase
+            </Label>
+            <Input
+              id="passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="rounded-none border-2 font-mono"
+              autoFocus
+            />
+            <p className="text-[10px] text-muted-foreground font-mono">
+              At least {MIN_PASSPHRASE_LENGTH} characters. It cannot be recovered if forgotten.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="passphrase-confirm" className="font-mono text-xs uppercase tracking-wider">
+              Repeat Passphrase
+            </Label>
+            <Input
+              id="passphrase-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="rounded-none border-2 font-mono"
+            />
+            {isMismatch && (
+              <p className="text-[10px] text-destructive font-mono">PASSPHRASES DO NOT MATCH</p>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={isWorking}
+              className="rounded-none border-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isWorking || isTooShort || confirmation !== passphrase}
+              className="rounded-none"
+            >
+              {isWorking ? 'Working...' : submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { useCanvasStore } from '@/store/canvas-store'
+import { getLocalCollaborator, type CollaboratorInfo } from '@/lib/collaboration'
+import { cn } from '@/lib/utils'
+
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('')
+}
+
+function Avatar({ user, label, onClick }: { user: CollaboratorInfo; label: string; onClick?: () => void }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={onClick}
+          className={cn(
+            'h-6 w-6 -ml-1 first:ml-0 border-2 border-background flex items-center justify-center font-mono text-[9px] font-bold text-white',
+            onClick ? 'cursor-pointer' : 'cursor-default'
+          )}
+          style={{ backgroundColor: user.color }}
+        >
+          {getInitials(user.name)}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent className="font-mono text-[10px]">{label}</TooltipContent>
+    </Tooltip>
+  )
+}
+
+/**
+ * Who else has this canvas open, plus the connection state
+ */
+export default function PresenceAvatars() {
+  const status = useCanvasStore(state => state.collaborationStatus)
+  const collaborators = useCanvasStore(state => state.collaborators)
+  const setCollaboratorInfo = useCanvasStore(state => state.setCollaboratorInfo)
+  const [self, setSelf] = useState(getLocalCollaborator)
+
+  if (!status) return null
+
+  const handleRename = () => {
+    const name = prompt('Your name, as shown to collaborators:', self.name)?.trim()
+    if (!name) return
+
+    const user = { ...self, name: name.slice(0, 40) }
+    setSelf(user)
+    setCollaboratorInfo(user)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex items-center">
+        <Avatar user={self} label={`${self.name} (you) - click to rename`} onClick={handleRename} />
+        {collaborators.map(collaborator => (
+          <Avatar key={collaborator.clientId} user={collaborator} label={collaborator.name} />
+        ))}
+      </div>
+      <span
+        className={cn(
+          'font-mono text-[10px]',
+          status === 'connected' ? 'text-muted-foreground' : 'text-destructive'
+        )}
+      >
+        {status === 'connected' ? `${collaborators.length + 1} ONLINE` : status === 'connecting' ? 'CONNECTING...' : 'OFFLINE'}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useMemo } from 'react'
+import dynamic from 'next/dynamic'
+import { BackgroundVariant, type Node, type OnSelectionChangeParams, type Viewport } from '@xyflow/react'
+
+import '@xyflow/react/dist/style.css'
+
+import LinkNode from './link-node'
+import ConnectionEdge from './connection-edge'
+import GroupNode from './group-node'
+import { toFlowEdges, toFlowNodes } from './flow-elements'
+import type { Canvas } from '@/types'
+import { cn } from '@/lib/utils'
+
+const ReactFlow = dynamic(() => import('@xyflow/react').then(mod => ({ default: mod.ReactFlow })), {
+  ssr: false,
+  loading: () => (
+    <div className="flex items-center justify-center h-full w-full bg-background text-muted-foreground font-mono text-xs">
+      LOADING PREVIEW...
+    </div>
+  )
+})
+
+const Background = dynamic(() => import('@xyflow/react').then(mod => ({ default: mod.Background })), { ssr: false })
+const Controls = dynamic(() => import('@xyflow/react').then(mod => ({ default: mod.Controls })), { ssr: false })
+const MiniMap = dynamic(() => import('@xyflow/react').then(mod => ({ default: mod.MiniMap })), { ssr: false })
+
+const nodeTypes = {
+  linkCard: LinkNode,
+  group: GroupNode,
+}
+
+const edgeTypes = {
+  default: ConnectionEdge,
+}
+
+interface ReadOnlyCanvasProps {
+  canvas: Canvas
+  showControls?: boolean
+  showMiniMap?: boolean
+  // Allow selecting nodes, e.g. to copy them elsewhere
+  selectable?: boolean
+  onSelectionChange?: (nodeIds: string[]) => void
+  // Start here instead of fitting the whole canvas into view
+  viewport?: Viewport
+  onViewportChange?: (viewport: Viewport) => void
+  className?: string
+  children?: React.ReactNode
+}
+
+/**
+ * Non-editable rendering of a canvas using the regular node and edge components
+ */
+export default function ReadOnlyCanvas({
+  canvas,
+  showControls = true,
+  showMiniMap = false,
+  selectable = false,
+  onSelectionChange,
+  viewport,
+  onViewportChange,
+  className,
+  children,
+}: ReadOnlyCanvasProps) {
+  const nodes = useMemo<Node[]>(() => toFlowNodes(canvas, {}, true), [canvas])
+  const edges = useMemo(() => toFlowEdges(canvas), [canvas])
+
+  const handleSelectionChange = ({ nodes: selected }: OnSelectionChangeParams) => {
+    onSelectionChange?.(selected.map(node => node.id))
+  }
+
+  return (
+    <div className={cn('w-full h-full bg-background', className)}>
+      <ReactFlow
+        defaultNodes={nodes}
+        defaultEdges={edges}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        edgesFocusable={false}
+        elementsSelectable={selectable}
+        onSelectionChange={onSelectionChange ? handleSelectionChange : undefined}
+        deleteKeyCode={null}
+        defaultViewport={viewport ?? canvas.viewport}
+        fitView={!viewport}
+        onMoveEnd={onViewportChange ? (_event, next) => onViewportChange(next) : undefined}
+        minZoom={0.1}
+        maxZoom={4}
+        proOptions={{ hideAttribution: true }}
+        className="bg-background"
+      >
+        <Background
+          variant={BackgroundVariant.Lines}
+          gap={40}
+          size={1}
+          color="var(--border)"
+          className="opacity-50"
+        />
+
+        {showControls && (
+          <Controls
+            className="!bg-background !border !border-border !rounded-none !shadow-none [&>button]:!border-b [&>button]:!border-border [&>button]:!rounded-none [&>button]:!fill-foreground hover:[&>button]:!bg-muted"
+            showInteractive={false}
+          />
+        )}
+
+        {showMiniMap && (
+          <MiniMap
+            className="!bg-background !border !border-border !rounded-none !shadow-sm"
+            maskColor="var(--background)"
+            nodeColor="var(--ring)"
+          />
+        )}
+
+        {children}
+      </ReactFlow>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useCanvasStore, type ConflictStrategy } from '@/store/canvas-store'
+
+export default function SaveConflictDialog() {
+  const saveConflict = useCanvasStore(state => state.saveConflict)
+  const canvas = useCanvasStore(state => state.canvas)
+  const resolveSaveConflict = useCanvasStore(state => state.resolveSaveConflict)
+  const [isResolving, setIsResolving] = useState(false)
+
+  const handleResolve = async (strategy: ConflictStrategy) => {
+    setIsResolving(true)
+    try {
+      await resolveSaveConflict(strategy)
+    } catch (error) {
+      console.error('Failed to resolve save conflict:', error)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  if (!saveConflict || !canvas) return null
+
+  const { remote } = saveConflict
+
+  // Closing without a choice is not allowed: saving stays paused until resolved
+  return (
+    <Dialog open>
+      <DialogContent className="rounded-none border-2 max-w-md" showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <AlertTriangle size={16} className="text-amber-600" />
+            Canvas Changed Elsewhere
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            Another tab or an import saved this canvas while you were editing. Your changes have not been saved yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div className="p-3 bg-muted/50 border border-border space-y-1">
+            <div className="text-xs text-muted-foreground font-mono">YOURS</div>
+            <div className="font-mono text-xs">{canvas.links.length} LINKS</div>
+            <div className="font-mono text-xs">{canvas.connections.length} CONNECTIONS</div>
+            <div className="font-mono text-xs">{(canvas.groups || []).length} GROUPS</div>
+          </div>
+          <div className="p-3 bg-muted/50 border border-border space-y-1">
+            <div className="text-xs text-muted-foreground font-mono">SAVED (REV {remote.revision})</div>
+            <div className="font-mono text-xs">{remote.links.length} LINKS</div>
+            <div className="font-mono text-xs">{remote.connections.length} CONNECTIONS</div>
+            <div className="font-mono text-xs">{(remote.groups || []).length} GROUPS</div>
+          </div>
+        </div>
+
+        <div className="space-y-1 text-[10px] text-muted-foreground font-mono">
+          <p>MERGE keeps both sets of changes; your edits win where both touched the same item.</p>
+          <p>RELOAD discards your unsaved edits. OVERWRITE discards the other changes.</p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={isResolving}
+            onClick={() => handleResolve('reload')}
+            className="rounded-none border-2"
+          >
+            Reload
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isResolving}
+            onClick={() => handleResolve('overwrite')}
+            className="rounded-none border-2"
+          >
+            Overwrite
+          </Button>
+          <Button
+            disabled={isResolving}
+            onClick={() => handleResolve('merge')}
+            className="rounded-none"
+          >
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
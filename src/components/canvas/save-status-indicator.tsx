@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Check, Loader2, AlertTriangle, RotateCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { useCanvasStore } from '@/store/canvas-store'
+import { cn } from '@/lib/utils'
+
+/**
+ * Shows whether local changes have been written to storage, with a retry when a write fails
+ */
+export default function SaveStatusIndicator() {
+  const saveStatus = useCanvasStore(state => state.saveStatus)
+  const saveError = useCanvasStore(state => state.saveError)
+  const hasConflict = useCanvasStore(state => state.saveConflict !== null)
+  const retrySave = useCanvasStore(state => state.retrySave)
+  const previousStatus = useRef(saveStatus)
+
+  // Toast once per failure rather than on every render
+  useEffect(() => {
+    if (saveStatus === 'failed' && previousStatus.current !== 'failed') {
+      toast.error('Failed to save changes', {
+        description: saveError || 'Your browser storage could not be written.',
+        action: { label: 'Retry', onClick: () => retrySave() },
+      })
+    }
+    previousStatus.current = saveStatus
+  }, [saveStatus, saveError, retrySave])
+
+  if (hasConflict) {
+    return (
+      <div className="flex items-center gap-1.5 font-mono text-[10px] text-destructive">
+        <AlertTriangle size={10} />
+        CONFLICT
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1.5 font-mono text-[10px]',
+        saveStatus === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+      )}
+      title={saveStatus === 'failed' ? saveError || undefined : undefined}
+    >
+      {saveStatus === 'saved' && (
+        <>
+          <Check size={10} />
+          SAVED
+        </>
+      )}
+      {saveStatus === 'saving' && (
+        <>
+          <Loader2 size={10} className="animate-spin" />
+          SAVING...
+        </>
+      )}
+      {saveStatus === 'failed' && (
+        <>
+          <AlertTriangle size={10} />
+          SAVE FAILED
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => retrySave()}
+            className="h-5 px-1.5 rounded-none font-mono text-[10px] gap-1 hover:bg-destructive/10"
+          >
+            <RotateCw size={10} />
+            RETRY
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Share2, Copy, Code, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { createShareUrls, SHARE_URL_WARNING_LENGTH } from '@/lib/share-link'
+import { escapeHtml } from '@/lib/utils'
+import { useCanvasStore } from '@/store/canvas-store'
+
+interface ShareDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Iframe markup for pasting into another site
+function embedCode(embedUrl: string): string {
+  return `<iframe src="${escapeHtml(embedUrl)}" width="800" height="500" style="border: 0"></iframe>`
+}
+
+export default function ShareDialog({ isOpen, onClose }: ShareDialogProps) {
+  const [shareUrl, setShareUrl] = useState('')
+  const [embedUrl, setEmbedUrl] = useState('')
+
+  // The link is a snapshot of the canvas as it is when the dialog opens
+  useEffect(() => {
+    const canvas = useCanvasStore.getState().canvas
+    if (!isOpen || !canvas) return
+
+    let cancelled = false
+    createShareUrls(canvas)
+      .then(urls => {
+        if (cancelled) return
+        setShareUrl(urls.viewUrl)
+        setEmbedUrl(urls.embedUrl)
+      })
+      .catch(error => {
+        console.error('Failed to create share link', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to create share link')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen])
+
+  const handleCopy = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success(message)
+    } catch {
+      toast.error('Could not copy, select the text and copy it manually')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="rounded-none border-2 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <Share2 size={16} />
+            Share Read-Only Link
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            The whole canvas is packed into the link itself, so nothing is uploaded. Later edits are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={shareUrl}
+            placeholder="Generating link..."
+            onFocus={(e) => e.target.select()}
+            className="rounded-none border-2 font-mono text-xs"
+          />
+          <Button
+            onClick={() => handleCopy(shareUrl, 'Share link copied')}
+            disabled={!shareUrl}
+            className="rounded-none gap-2"
+          >
+            <Copy size={12} />
+            COPY
+          </Button>
+        </div>
+
+        <div className="font-mono text-[10px] text-muted-foreground">
+          {shareUrl ? `${shareUrl.length.toLocaleString()} CHARACTERS` : ''}
+        </div>
+
+        <div className="space-y-2">
+          <div className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+            Embed Code
+          </div>
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={embedUrl ? embedCode(embedUrl) : ''}
+              placeholder="Generating embed code..."
+              onFocus={(e) => e.target.select()}
+              className="rounded-none border-2 font-mono text-xs"
+            />
+            <Button
+              variant="outline"
+              onClick={() => handleCopy(embedCode(embedUrl), 'Embed code copied')}
+              disabled={!embedUrl}
+              className="rounded-none border-2 gap-2"
+            >
+              <Code size={12} />
+              COPY
+            </Button>
+          </div>
+        </div>
+
+        {shareUrl.length > SHARE_URL_WARNING_LENGTH && (
+          <div className="flex items-start gap-2 p-2 border border-destructive/50 bg-destructive/5 font-mono text-[10px] text-destructive">
+            <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+            This link is very long and may be cut off by some apps. Consider sharing an exported file instead.
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
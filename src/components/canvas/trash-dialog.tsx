@@ -0,0 +1,242 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Trash2, RotateCcw, Layout, Folder, Lock, Link as LinkIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  deleteTrashItem,
+  emptyTrash,
+  getTrashRetentionDays,
+  listTrash,
+  purgeExpiredTrash,
+  restoreTrashItem,
+  setTrashRetentionDays,
+} from '@/lib/trash'
+import { subscribeToTabMessages } from '@/lib/tab-sync'
+import { isCanvasSealed } from '@/lib/encryption'
+import { useCanvasStore } from '@/store/canvas-store'
+import type { TrashItem } from '@/types'
+
+interface TrashDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Only show items deleted from this canvas
+  canvasId?: string
+  onRestored?: (item: TrashItem) => void
+}
+
+function getItemLabel(item: TrashItem): string {
+  switch (item.kind) {
+    case 'canvas':
+      return item.canvas.name
+    case 'link':
+      return item.link.title || item.link.url
+    case 'group':
+      return item.group.name
+    case 'sealed':
+      return 'Encrypted item'
+  }
+}
+
+function getItemDetails(item: TrashItem): string {
+  switch (item.kind) {
+    case 'canvas':
+      return isCanvasSealed(item.canvas) ? 'CANVAS • ENCRYPTED' : `CANVAS • ${item.canvas.links.length} LINKS`
+    case 'link':
+      return `LINK • ${item.canvasName}`
+    case 'group':
+      return `GROUP • ${item.canvasName}`
+    case 'sealed':
+      return `LOCKED • ${item.canvasName}`
+  }
+}
+
+// Purge expired items, then read what is left
+async function readTrash(canvasId?: string) {
+  await purgeExpiredTrash()
+  return { items: await listTrash(canvasId), retentionDays: await getTrashRetentionDays() }
+}
+
+const itemIcons = {
+  canvas: Layout,
+  link: LinkIcon,
+  group: Folder,
+  sealed: Lock,
+}
+
+export default function TrashDialog({ isOpen, onClose, canvasId, onRestored }: TrashDialogProps) {
+  const [items, setItems] = useState<TrashItem[]>([])
+  const [retentionDays, setRetentionDays] = useState('')
+
+  const loadTrash = useCallback(() => {
+    return readTrash(canvasId).then(trash => {
+      setItems(trash.items)
+      setRetentionDays(String(trash.retentionDays))
+    })
+  }, [canvasId])
+
+  useEffect(() => {
+    if (!isOpen) return
+    loadTrash()
+
+    return subscribeToTabMessages(message => {
+      if (message.type === 'trash-changed') {
+        loadTrash()
+      }
+    })
+  }, [isOpen, loadTrash])
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const store = useCanvasStore.getState()
+      // Restore into the open editor so the change is undoable and not overwritten by its next save
+      if ((item.kind === 'link' || item.kind === 'group') && store.canvas?.id === item.canvasId) {
+        await store.restoreFromTrash(item)
+      } else {
+        await restoreTrashItem(item)
+      }
+      setItems(prev => prev.filter(i => i.id !== item.id))
+      onRestored?.(item)
+      toast.success(`Restored "${getItemLabel(item)}"`)
+    } catch (error) {
+      console.error('Failed to restore item', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to restore item')
+    }
+  }
+
+  const handleDelete = async (item: TrashItem) => {
+    try {
+      await deleteTrashItem(item)
+      setItems(prev => prev.filter(i => i.id !== item.id))
+    } catch {
+      toast.error('Failed to delete item')
+    }
+  }
+
+  const handleEmpty = async () => {
+    if (!confirm('Permanently delete everything in the trash?')) return
+
+    try {
+      await emptyTrash(canvasId)
+      setItems([])
+      toast.success('Trash emptied')
+    } catch {
+      toast.error('Failed to empty trash')
+    }
+  }
+
+  const handleRetentionChange = async () => {
+    const days = Number(retentionDays)
+    if (!Number.isFinite(days) || days < 1) {
+      setRetentionDays(String(await getTrashRetentionDays()))
+      return
+    }
+
+    try {
+      await setTrashRetentionDays(days)
+      await loadTrash()
+    } catch {
+      toast.error('Failed to update retention period')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="rounded-none border-2 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-sans flex items-center gap-2">
+            <Trash2 size={16} />
+            Trash
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            {canvasId ? 'Links and groups deleted from this canvas.' : 'Deleted canvases, links and groups.'}{' '}
+            Items are removed for good after the retention period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[360px] overflow-y-auto space-y-1 border border-border p-1">
+          {items.length === 0 && (
+            <div className="p-6 text-center font-mono text-[10px] text-muted-foreground">
+              TRASH IS EMPTY
+            </div>
+          )}
+          {items.map(item => {
+            const Icon = itemIcons[item.kind]
+            return (
+              <div key={item.id} className="flex items-center justify-between gap-2 p-2 hover:bg-muted/30">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Icon size={12} className="shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="font-sans text-xs font-bold truncate">{getItemLabel(item)}</div>
+                    <div className="font-mono text-[9px] text-muted-foreground truncate">
+                      {getItemDetails(item)} • {new Date(item.deletedAt).toLocaleString()}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 rounded-none border-2 text-[10px] gap-1"
+                    disabled={item.kind === 'sealed'}
+                    title={item.kind === 'sealed' ? 'Unlock the canvas to restore this item' : undefined}
+                    onClick={() => handleRestore(item)}
+                  >
+                    <RotateCcw size={10} />
+                    RESTORE
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 rounded-none text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                    title="Delete Forever"
+                    onClick={() => handleDelete(item)}
+                  >
+                    <Trash2 size={10} />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex items-end justify-between gap-4">
+          <div className="grid gap-1">
+            <Label htmlFor="trash-retention" className="font-mono text-[10px] uppercase">
+              Keep items for (days)
+            </Label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={1}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              onBlur={handleRetentionChange}
+              onKeyDown={(e) => e.key === 'Enter' && handleRetentionChange()}
+              className="rounded-none border-2 font-mono text-xs h-8 w-24"
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={items.length === 0}
+            onClick={handleEmpty}
+            className="rounded-none border-2 text-xs hover:bg-destructive hover:text-destructive-foreground"
+          >
+            EMPTY TRASH
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
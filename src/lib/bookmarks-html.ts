@@ -0,0 +1,149 @@
+import { getLinkGroups, type LinkDraft, type LinkFolder } from '@/lib/canvas-layout'
+import { escapeHtml } from '@/lib/utils'
+import type { Canvas, Link } from '@/types'
+
+// Netscape bookmark files, as exported by every major browser:
+//   <DL><p>
+//     <DT><H3 ADD_DATE="...">Folder</H3>
+//     <DL><p> ...nested entries... </DL><p>
+//     <DT><A HREF="..." ADD_DATE="...">Title</A>
+//     <DD>Optional description
+//   </DL><p>
+
+// ADD_DATE is seconds since the epoch; some tools write milliseconds or microseconds
+function parseAddDate(value: string | null): string | undefined {
+  const number = Number(value)
+  if (!value || !Number.isFinite(number) || number <= 0) return undefined
+
+  const ms = number > 1e14 ? number / 1000 : number > 1e11 ? number : number * 1000
+  return new Date(ms).toISOString()
+}
+
+// Bookmarklets, browser-internal pages and smart folders have nothing to show on a canvas
+function isWebUrl(href: string): boolean {
+  try {
+    const { protocol } = new URL(href)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function childrenOf(element: Element, tagName: string): Element[] {
+  return Array.from(element.children).filter(child => child.tagName === tagName)
+}
+
+// The parser nests a folder's <DL> inside its <DT>, and a bookmark's <DD> after its <DT>
+function readList(list: Element, folder: LinkFolder): void {
+  let lastBookmark: LinkDraft | null = null
+  let lastFolder: LinkFolder | null = null
+
+  for (const entry of Array.from(list.children)) {
+    if (entry.tagName === 'DD') {
+      if (lastBookmark && !lastBookmark.description) {
+        lastBookmark.description = entry.firstChild?.textContent?.trim() || undefined
+      }
+      // A folder with a description has its <DL> inside the <DD>
+      const nested = childrenOf(entry, 'DL')[0]
+      if (lastFolder && nested) readList(nested, lastFolder)
+      continue
+    }
+    if (entry.tagName !== 'DT') {
+      // Stray <p> wrappers from the format's unclosed tags can hold entries too
+      if (entry.tagName === 'P') readList(entry, folder)
+      continue
+    }
+
+    lastBookmark = null
+    lastFolder = null
+    const heading = childrenOf(entry, 'H3')[0]
+    const anchor = childrenOf(entry, 'A')[0]
+
+    if (heading) {
+      const child: LinkFolder = {
+        title: heading.textContent?.trim() || 'Untitled folder',
+        addedAt: parseAddDate(heading.getAttribute('add_date')),
+        links: [],
+        folders: [],
+      }
+      const nested = childrenOf(entry, 'DL')[0]
+      if (nested) readList(nested, child)
+      folder.folders.push(child)
+      lastFolder = child
+    } else if (anchor) {
+      const href = anchor.getAttribute('href')?.trim()
+      if (!href || !isWebUrl(href)) continue
+
+      lastBookmark = {
+        url: href,
+        title: anchor.textContent?.trim() || undefined,
+        addedAt: parseAddDate(anchor.getAttribute('add_date')),
+      }
+      folder.links.push(lastBookmark)
+    }
+  }
+}
+
+/**
+ * Read the folder tree from a Netscape bookmark file
+ */
+export function parseBookmarksHtml(html: string): LinkFolder {
+  const document = new DOMParser().parseFromString(html, 'text/html')
+  const root: LinkFolder = {
+    title: document.querySelector('h1')?.textContent?.trim() || 'Bookmarks',
+    links: [],
+    folders: [],
+  }
+
+  const list = document.querySelector('dl')
+  if (!list) {
+    throw new Error('This is not a bookmarks file')
+  }
+
+  readList(list, root)
+  return root
+}
+
+function toAddDate(value?: string): string {
+  const time = value ? new Date(value).getTime() : NaN
+  return Number.isNaN(time) ? '' : ` ADD_DATE="${Math.floor(time / 1000)}"`
+}
+
+function bookmarkLines(link: Link, indent: string): string[] {
+  const lines = [`${indent}<DT><A HREF="${escapeHtml(link.url)}"${toAddDate(link.addedAt)}>${escapeHtml(link.title || link.url)}</A>`]
+  if (link.description) {
+    lines.push(`${indent}<DD>${escapeHtml(link.description)}`)
+  }
+  return lines
+}
+
+/**
+ * Write a canvas as a Netscape bookmark file. Each group becomes a folder holding
+ * the links positioned inside it; the other links stay at the top level.
+ */
+export function toBookmarksHtml(canvas: Canvas): string {
+  const membership = getLinkGroups(canvas)
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file. -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    `<H1>${escapeHtml(canvas.name)}</H1>`,
+    '<DL><p>',
+  ]
+
+  canvas.links
+    .filter(link => !membership.has(link.id))
+    .forEach(link => lines.push(...bookmarkLines(link, '    ')))
+
+  for (const group of canvas.groups || []) {
+    lines.push(`    <DT><H3>${escapeHtml(group.name)}</H3>`, '    <DL><p>')
+    canvas.links
+      .filter(link => membership.get(link.id)?.id === group.id)
+      .forEach(link => lines.push(...bookmarkLines(link, '        ')))
+    lines.push('    </DL><p>')
+  }
+
+  lines.push('</DL><p>')
+  return lines.join('\n') + '\n'
+}
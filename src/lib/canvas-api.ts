@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+import type { Canvas } from '@/types'
+import { applyCanvasMutation, type CanvasMutation } from '@/lib/canvas-mutations'
+import { fileAdapter } from '@/lib/file-adapter'
+import { checkStoredCanvas, RevisionConflictError, STORAGE_BACKEND } from '@/lib/storage-adapter'
+
+// How often an update is retried when another write lands between read and write
+const MAX_WRITE_ATTEMPTS = 3
+
+export function jsonError(error: string, status: number, details?: Record<string, unknown>) {
+  return NextResponse.json({ error, ...details }, { status })
+}
+
+// Log an unexpected failure and answer with a 500
+export function serverError(error: unknown, message: string) {
+  console.error(`${message}:`, error)
+  return jsonError(message, 500)
+}
+
+/**
+ * The canvas API only exists on deployments that keep canvases on the server.
+ * Returns the response to send when it is switched off.
+ */
+export function checkCanvasApiEnabled(): NextResponse<{ error: string }> | null {
+  if (STORAGE_BACKEND === 'server') return null
+  return jsonError('Server storage is not enabled on this deployment', 404)
+}
+
+// Read a JSON request body, or null if it is not valid JSON
+export async function readJsonBody(request: Request): Promise<unknown | null> {
+  try {
+    return await request.json()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Validate a JSON request body against a schema.
+ * Returns the parsed data, or a 400 response listing the issues.
+ */
+export async function parseBody<T extends z.ZodType>(
+  request: Request,
+  schema: T
+): Promise<{ data: z.infer<T> } | { response: NextResponse }> {
+  const parsed = schema.safeParse(await readJsonBody(request))
+  if (!parsed.success) {
+    return { response: jsonError('Invalid request body', 400, { issues: parsed.error.issues }) }
+  }
+  return { data: parsed.data }
+}
+
+// Load a stored canvas, or a 404 response
+export async function loadStoredCanvas(canvasId: string): Promise<Canvas | NextResponse> {
+  const canvas = checkStoredCanvas(await fileAdapter.readCanvas(canvasId))
+  return canvas || jsonError('Canvas not found', 404)
+}
+
+/**
+ * Apply mutations to a stored canvas and save it at the next revision.
+ * `plan` decides the mutations from the current canvas, or rejects the request with a response.
+ */
+export async function updateStoredCanvas(
+  canvasId: string,
+  plan: (canvas: Canvas) => CanvasMutation[] | NextResponse
+): Promise<Canvas | NextResponse> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const canvas = await loadStoredCanvas(canvasId)
+    if (canvas instanceof NextResponse) return canvas
+    // The server never holds the key, so encrypted content can only change in the app
+    if (canvas.encryption) {
+      return jsonError('Canvas is encrypted and can only be changed in the app', 423)
+    }
+
+    const mutations = plan(canvas)
+    if (mutations instanceof NextResponse) return mutations
+
+    const updated = mutations.reduce(applyCanvasMutation, canvas)
+    try {
+      return await fileAdapter.writeCanvas({ ...updated, updatedAt: new Date().toISOString() }, {})
+    } catch (error) {
+      if (!(error instanceof RevisionConflictError)) throw error
+    }
+  }
+
+  return jsonError('The canvas is being changed elsewhere, please retry', 409)
+}
+
+// Ids of everything a connection can attach to
+export function getNodeIds(canvas: Canvas): Set<string> {
+  return new Set([...canvas.links.map(link => link.id), ...(canvas.groups || []).map(group => group.id)])
+}
@@ -0,0 +1,101 @@
+import * as Y from 'yjs'
+import type { Canvas } from '@/types'
+
+// Shared document layout:
+//   meta                         Y.Map of name and description
+//   links, connections, groups   Y.Map of id -> Y.Map of entity fields
+// Entities are stored field by field so concurrent edits to different fields both survive.
+const META_FIELDS = ['name', 'description'] as const
+
+type Collection = 'links' | 'connections' | 'groups'
+type Entity = { id: string } & Record<string, unknown>
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Set changed fields and delete missing ones, so unchanged fields produce no updates
+function writeFields(target: Y.Map<unknown>, fields: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue
+    if (!target.has(key) || !isSameValue(target.get(key), value)) {
+      target.set(key, value)
+    }
+  }
+  for (const key of Array.from(target.keys())) {
+    if (fields[key] === undefined) {
+      target.delete(key)
+    }
+  }
+}
+
+function writeCollection(doc: Y.Doc, name: Collection, entities: Entity[]): void {
+  const collection = doc.getMap<Y.Map<unknown>>(name)
+  const ids = new Set(entities.map(entity => entity.id))
+
+  for (const id of Array.from(collection.keys())) {
+    if (!ids.has(id)) collection.delete(id)
+  }
+
+  for (const entity of entities) {
+    let target = collection.get(entity.id)
+    if (!target) {
+      target = new Y.Map()
+      collection.set(entity.id, target)
+    }
+    writeFields(target, entity)
+  }
+}
+
+// Read entities, keeping the order of `previous` and appending new ones by id
+function readCollection<T extends { id: string }>(doc: Y.Doc, name: Collection, previous: T[]): T[] {
+  const collection = doc.getMap<Y.Map<unknown>>(name)
+  const order = new Map(previous.map((entity, index) => [entity.id, index]))
+
+  return Array.from(collection.entries())
+    .map(([id, fields]) => ({ ...fields.toJSON(), id }) as T)
+    .sort((a, b) => {
+      const indexA = order.get(a.id) ?? Infinity
+      const indexB = order.get(b.id) ?? Infinity
+      return indexA === indexB ? a.id.localeCompare(b.id) : indexA - indexB
+    })
+}
+
+/**
+ * Whether the document has never been filled with a canvas
+ */
+export function isCanvasDocEmpty(doc: Y.Doc): boolean {
+  return !doc.getMap('meta').has('name')
+}
+
+/**
+ * Bring the document in line with `canvas`, touching only what differs.
+ * Viewport and revision are per-client and not shared.
+ */
+export function writeCanvasToDoc(doc: Y.Doc, canvas: Canvas, origin?: unknown): void {
+  doc.transact(() => {
+    writeFields(
+      doc.getMap('meta'),
+      Object.fromEntries(META_FIELDS.map(field => [field, canvas[field]]))
+    )
+    writeCollection(doc, 'links', canvas.links as unknown as Entity[])
+    writeCollection(doc, 'connections', canvas.connections as unknown as Entity[])
+    writeCollection(doc, 'groups', (canvas.groups || []) as unknown as Entity[])
+  }, origin)
+}
+
+/**
+ * Build a canvas from the document, taking local-only fields from `base`
+ */
+export function readCanvasFromDoc(doc: Y.Doc, base: Canvas): Canvas {
+  const meta = doc.getMap('meta')
+
+  return {
+    ...base,
+    name: (meta.get('name') as string | undefined) ?? base.name,
+    description: meta.get('description') as string | undefined,
+    links: readCollection(doc, 'links', base.links),
+    connections: readCollection(doc, 'connections', base.connections),
+    groups: readCollection(doc, 'groups', base.groups || []),
+  }
+}
@@ -0,0 +1,251 @@
+import { getSmoothStepPath, Position } from '@xyflow/react'
+import { getContentBounds } from '@/lib/canvas-layout'
+import type { CanvasItems } from '@/lib/canvas-selection'
+import { escapeHtml, isWebUrl } from '@/lib/utils'
+import type { Group, Link } from '@/types'
+
+// The light blueprint palette from globals.css; exports do not follow the app theme
+const COLORS = {
+  background: '#F0F0F0',
+  foreground: '#111111',
+  card: '#FFFFFF',
+  muted: '#E5E5E5',
+  mutedForeground: '#666666',
+  border: '#CCCCCC',
+  ring: '#FF4F00',
+}
+const SANS_FONT = "'Space Grotesk', system-ui, sans-serif"
+const MONO_FONT = "'JetBrains Mono', ui-monospace, monospace"
+
+// Matches the canvas background grid
+const GRID_SIZE = 40
+// Room around the content so frames and edges are not cut off
+const PADDING = 40
+const CARD_HEADER_HEIGHT = 28
+const GROUP_HEADER_HEIGHT = 32
+const TITLE_FONT_SIZE = 14
+const TITLE_LINE_HEIGHT = 18
+const TITLE_MAX_LINES = 3
+// Rough average glyph widths, in ems, for wrapping text without measuring it
+const SANS_CHAR_WIDTH = 0.56
+const MONO_CHAR_WIDTH = 0.6
+const FAVICON_BATCH_SIZE = 8
+// Browsers refuse to allocate canvases much larger than this on a side
+const MAX_PNG_SIDE = 16384
+
+export type ImageBackground = 'transparent' | 'grid'
+
+export interface CanvasImageOptions {
+  background: ImageBackground
+  // Output pixels per canvas unit
+  scale?: number
+  // Image sources to use per favicon URL; cards without one get a placeholder
+  favicons?: Map<string, string>
+}
+
+// Wrap text into at most maxLines lines of roughly maxChars characters
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean).map(word => truncate(word, maxChars))) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+  if (current) lines.push(current)
+
+  if (lines.length <= maxLines) return lines
+  const kept = lines.slice(0, maxLines)
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`
+  return kept
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text
+}
+
+function renderGroup(group: Group): string {
+  const label = truncate(group.name.toUpperCase(), Math.floor((group.width - 24) / (10 * MONO_CHAR_WIDTH)))
+  return [
+    `<g transform="translate(${group.x} ${group.y})">`,
+    `<rect width="${group.width}" height="${group.height}" fill="${escapeHtml(group.color)}" fill-opacity="0.125"/>`,
+    `<rect width="${group.width}" height="${GROUP_HEADER_HEIGHT}" fill="${COLORS.muted}" fill-opacity="0.5"/>`,
+    `<line x1="0" y1="${GROUP_HEADER_HEIGHT}" x2="${group.width}" y2="${GROUP_HEADER_HEIGHT}" stroke="${COLORS.border}" stroke-opacity="0.6"/>`,
+    `<rect width="${group.width}" height="${group.height}" fill="none" stroke="${escapeHtml(group.color)}" stroke-width="2" stroke-dasharray="6 4"/>`,
+    `<text x="12" y="20" font-family="${MONO_FONT}" font-size="10" font-weight="700" letter-spacing="1" fill="${COLORS.mutedForeground}">${escapeHtml(label)}</text>`,
+    '</g>',
+  ].join('')
+}
+
+function renderLink(link: Link, favicons?: Map<string, string>): string {
+  const favicon = link.favicon ? favicons?.get(link.favicon) : undefined
+  const textX = 12 + 16 + 8
+  const domain = truncate((link.domain || link.url).toUpperCase(), Math.floor((link.width - textX - 12) / (10 * MONO_CHAR_WIDTH)))
+  const titleLines = wrapText(
+    link.title || link.url,
+    Math.floor((link.width - 24) / (TITLE_FONT_SIZE * SANS_CHAR_WIDTH)),
+    TITLE_MAX_LINES
+  )
+
+  const icon = favicon
+    ? `<image href="${escapeHtml(favicon)}" x="12" y="6" width="16" height="16"/>`
+    : `<rect x="12" y="6" width="16" height="16" fill="${COLORS.muted}" stroke="${COLORS.border}"/>`
+
+  const card = [
+    `<g transform="translate(${link.x} ${link.y})">`,
+    `<rect width="${link.width}" height="${link.height}" fill="${COLORS.card}"/>`,
+    `<rect width="${link.width}" height="${CARD_HEADER_HEIGHT}" fill="${COLORS.muted}" fill-opacity="0.3"/>`,
+    `<line x1="0" y1="${CARD_HEADER_HEIGHT}" x2="${link.width}" y2="${CARD_HEADER_HEIGHT}" stroke="${COLORS.border}"/>`,
+    icon,
+    `<text x="${textX}" y="18" font-family="${MONO_FONT}" font-size="10" letter-spacing="1" fill="${COLORS.mutedForeground}">${escapeHtml(domain)}</text>`,
+    `<text font-family="${SANS_FONT}" font-size="${TITLE_FONT_SIZE}" font-weight="700" fill="${COLORS.foreground}">`,
+    ...titleLines.map((line, index) =>
+      `<tspan x="12" y="${CARD_HEADER_HEIGHT + 24 + index * TITLE_LINE_HEIGHT}">${escapeHtml(line)}</tspan>`
+    ),
+    '</text>',
+    `<rect x="0.5" y="0.5" width="${link.width - 1}" height="${link.height - 1}" fill="none" stroke="${COLORS.border}"/>`,
+    '</g>',
+  ].join('')
+
+  // A javascript: or data: link would run once the exported file is opened and clicked
+  if (!isWebUrl(link.url)) return card
+  return `<a href="${escapeHtml(link.url)}" target="_blank" rel="noopener noreferrer">${card}</a>`
+}
+
+// Edges leave and enter through a node's first handle: the top of a card, or the
+// right (source) and left (target) side of a group, as on the canvas
+function handlePoint(node: Link | Group, isGroup: boolean, type: 'source' | 'target') {
+  if (!isGroup) {
+    return { x: node.x + node.width / 2, y: node.y, position: Position.Top }
+  }
+  return type === 'source'
+    ? { x: node.x + node.width, y: node.y + node.height / 2, position: Position.Right }
+    : { x: node.x, y: node.y + node.height / 2, position: Position.Left }
+}
+
+function renderEdges(items: CanvasItems): string {
+  const links = new Map(items.links.map(link => [link.id, link]))
+  const groups = new Map(items.groups.map(group => [group.id, group]))
+
+  return items.connections.map(conn => {
+    const sourceNode = links.get(conn.sourceId) ?? groups.get(conn.sourceId)
+    const targetNode = links.get(conn.targetId) ?? groups.get(conn.targetId)
+    if (!sourceNode || !targetNode) return ''
+
+    const source = handlePoint(sourceNode, groups.has(conn.sourceId), 'source')
+    const target = handlePoint(targetNode, groups.has(conn.targetId), 'target')
+    const [path] = getSmoothStepPath({
+      sourceX: source.x,
+      sourceY: source.y,
+      sourcePosition: source.position,
+      targetX: target.x,
+      targetY: target.y,
+      targetPosition: target.position,
+      borderRadius: 0,
+    })
+    const dash = conn.style === 'dashed' || conn.style === 'animated' ? ' stroke-dasharray="5 5"' : ''
+    return `<path d="${path}" fill="none" stroke="${COLORS.ring}" stroke-width="1.5"${dash}/>`
+  }).join('')
+}
+
+/**
+ * Draw links, groups and connections as a standalone SVG document, cropped to the content
+ */
+export function renderCanvasSvg(items: CanvasItems, options: CanvasImageOptions): string {
+  const bounds = getContentBounds(items) ?? { x: 0, y: 0, width: 0, height: 0 }
+  const x = bounds.x - PADDING
+  const y = bounds.y - PADDING
+  const width = bounds.width + PADDING * 2
+  const height = bounds.height + PADDING * 2
+  const scale = options.scale ?? 1
+
+  const background = options.background === 'grid'
+    ? [
+        '<defs>',
+        `<pattern id="grid" width="${GRID_SIZE}" height="${GRID_SIZE}" patternUnits="userSpaceOnUse">`,
+        `<path d="M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}" fill="none" stroke="${COLORS.border}" stroke-width="1" stroke-opacity="0.5"/>`,
+        '</pattern>',
+        '</defs>',
+        `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${COLORS.background}"/>`,
+        `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="url(#grid)"/>`,
+      ].join('')
+    : ''
+
+  // Groups sit beneath the edges, which sit beneath the cards
+  const layers = [
+    ...items.groups.map(renderGroup),
+    renderEdges(items),
+    ...[...items.links].sort((a, b) => a.zIndex - b.zIndex).map(link => renderLink(link, options.favicons)),
+  ]
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * scale)}" height="${Math.round(height * scale)}" viewBox="${x} ${y} ${width} ${height}">`,
+    background,
+    ...layers,
+    '</svg>',
+  ].join('\n')
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Fetch the favicons of the given links as data URLs, so the image needs nothing
+ * from the network. Icons that cannot be fetched are left out.
+ */
+export async function loadFavicons(links: Link[]): Promise<Map<string, string>> {
+  const urls = [...new Set(links.map(link => link.favicon).filter((url): url is string => Boolean(url)))]
+  const favicons = new Map<string, string>()
+
+  // A few at a time, so a large canvas does not flood the server
+  for (let i = 0; i < urls.length; i += FAVICON_BATCH_SIZE) {
+    await Promise.all(urls.slice(i, i + FAVICON_BATCH_SIZE).map(async url => {
+      try {
+        const response = await fetch(`/api/favicon?url=${encodeURIComponent(url)}`)
+        if (!response.ok) return
+        favicons.set(url, await blobToDataUrl(await response.blob()))
+      } catch {
+        // Cards without an icon get a placeholder square
+      }
+    }))
+  }
+  return favicons
+}
+
+/**
+ * Rasterise an SVG document to a PNG at its own width and height
+ */
+export async function svgToPng(svg: string): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    if (image.width > MAX_PNG_SIDE || image.height > MAX_PNG_SIDE) {
+      throw new Error('The image is too large at this scale')
+    }
+
+    const canvas = document.createElement('canvas')
+    canvas.width = image.width
+    canvas.height = image.height
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas rendering is not available')
+    context.drawImage(image, 0, 0)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode PNG')), 'image/png')
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
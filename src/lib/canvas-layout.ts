@@ -0,0 +1,246 @@
+import type { Canvas, Connection, Group, Link } from '@/types'
+import type { CanvasItems } from '@/lib/canvas-selection'
+import { generateId, getDomainFromUrl } from '@/lib/utils'
+
+// Card and frame sizes for laid-out imports, matching links added by hand
+const LINK_WIDTH = 320
+const LINK_HEIGHT = 200
+const LINK_GAP = 40
+const GROUP_PADDING = 40
+// Room for the group label above the first row of cards
+const GROUP_HEADER = 40
+const GROUP_GAP = 120
+const GROUP_COLOR = '#FF4F00'
+const MAX_COLUMNS = 6
+// Groups wrap onto a new row once a row gets wider than this
+const MAX_ROW_WIDTH = 6000
+
+// A link read from another tool, before it has a place on the canvas
+export interface LinkDraft {
+  url: string
+  title?: string
+  description?: string
+  addedAt?: string
+}
+
+// Links that belong together; a section without a name is laid out outside any group
+export interface LinkSection {
+  name?: string
+  color?: string
+  links: LinkDraft[]
+}
+
+// A folder tree of links, as kept by browsers and outliners
+export interface LinkFolder {
+  title: string
+  addedAt?: string
+  links: LinkDraft[]
+  folders: LinkFolder[]
+}
+
+// Separates parent and child folder names in flattened group names
+const FOLDER_PATH_SEPARATOR = ' / '
+
+// A connection between two drafts, by their URLs
+export interface LinkRelation {
+  from: string
+  to: string
+  label?: string
+}
+
+interface Bounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Flatten a folder tree into one section per folder, named by its path.
+ * Links outside any folder become an unnamed section.
+ */
+export function foldersToSections(root: LinkFolder): LinkSection[] {
+  const sections: LinkSection[] = []
+  if (root.links.length > 0) {
+    sections.push({ links: root.links })
+  }
+
+  const visit = (folder: LinkFolder, path: string[]) => {
+    const name = [...path, folder.title].join(FOLDER_PATH_SEPARATOR)
+    // Folders that only hold other folders need no frame of their own
+    if (folder.links.length > 0 || folder.folders.length === 0) {
+      sections.push({ name, links: folder.links })
+    }
+    folder.folders.forEach(child => visit(child, [...path, folder.title]))
+  }
+  root.folders.forEach(folder => visit(folder, []))
+
+  return sections
+}
+
+/**
+ * Turn a draft into a link card that still needs its metadata fetched
+ */
+export function createDraftLink(draft: LinkDraft, x: number, y: number): Link {
+  return {
+    id: generateId(),
+    url: draft.url,
+    title: draft.title?.trim() || draft.url,
+    description: draft.description || undefined,
+    domain: getDomainFromUrl(draft.url),
+    x,
+    y,
+    width: LINK_WIDTH,
+    height: LINK_HEIGHT,
+    zIndex: 1,
+    metadataFetchedAt: null,
+    needsMetadataRefresh: true,
+    addedAt: draft.addedAt,
+  }
+}
+
+// Roughly square grids, so large sections do not turn into long strips
+function columnsFor(count: number): number {
+  return Math.min(MAX_COLUMNS, Math.max(1, Math.ceil(Math.sqrt(count))))
+}
+
+function gridSize(count: number): { width: number; height: number } {
+  const columns = columnsFor(count)
+  const rows = Math.max(1, Math.ceil(count / columns))
+  return {
+    width: columns * LINK_WIDTH + (columns - 1) * LINK_GAP,
+    height: rows * LINK_HEIGHT + (rows - 1) * LINK_GAP,
+  }
+}
+
+function layoutGrid(drafts: LinkDraft[], x: number, y: number): Link[] {
+  const columns = columnsFor(drafts.length)
+  return drafts.map((draft, index) => createDraftLink(
+    draft,
+    x + (index % columns) * (LINK_WIDTH + LINK_GAP),
+    y + Math.floor(index / columns) * (LINK_HEIGHT + LINK_GAP),
+  ))
+}
+
+/**
+ * Lay out sections as grids of cards, each named section inside a group frame,
+ * flowing left to right from the origin and wrapping into rows
+ */
+export function layoutSections(
+  sections: LinkSection[],
+  origin: { x: number; y: number } = { x: 0, y: 0 }
+): Pick<Canvas, 'links' | 'groups'> {
+  const links: Link[] = []
+  const groups: Group[] = []
+  let x = origin.x
+  let y = origin.y
+  let rowHeight = 0
+
+  for (const section of sections) {
+    // Named but empty sections still get a frame, so the structure survives
+    if (!section.name && section.links.length === 0) continue
+
+    const grid = gridSize(section.links.length)
+    const inset = section.name ? GROUP_PADDING : 0
+    const width = grid.width + inset * 2
+    const height = grid.height + (section.name ? GROUP_HEADER + GROUP_PADDING * 2 : 0)
+
+    if (x > origin.x && x + width - origin.x > MAX_ROW_WIDTH) {
+      x = origin.x
+      y += rowHeight + GROUP_GAP
+      rowHeight = 0
+    }
+
+    if (section.name) {
+      groups.push({
+        id: generateId(),
+        name: section.name,
+        color: section.color || GROUP_COLOR,
+        x,
+        y,
+        width,
+        height,
+      })
+    }
+    links.push(...layoutGrid(section.links, x + inset, y + (section.name ? GROUP_HEADER + GROUP_PADDING : 0)))
+
+    x += width + GROUP_GAP
+    rowHeight = Math.max(rowHeight, height)
+  }
+
+  return { links, groups }
+}
+
+/**
+ * Connect laid-out links as the relations describe, using the first card for each URL
+ */
+export function connectRelations(links: Link[], relations: LinkRelation[]): Connection[] {
+  const idsByUrl = new Map<string, string>()
+  links.forEach(link => {
+    if (!idsByUrl.has(link.url)) idsByUrl.set(link.url, link.id)
+  })
+
+  return relations.flatMap(relation => {
+    const sourceId = idsByUrl.get(relation.from)
+    const targetId = idsByUrl.get(relation.to)
+    if (!sourceId || !targetId || sourceId === targetId) return []
+    return [{ id: generateId(), sourceId, targetId, label: relation.label }]
+  })
+}
+
+/**
+ * The area covered by a canvas's links and groups, or null when it is empty
+ */
+export function getContentBounds(canvas: Pick<Canvas, 'links' | 'groups'>): Bounds | null {
+  const boxes: Bounds[] = [...canvas.links, ...(canvas.groups || [])]
+  if (boxes.length === 0) return null
+
+  const minX = Math.min(...boxes.map(box => box.x))
+  const minY = Math.min(...boxes.map(box => box.y))
+  const maxX = Math.max(...boxes.map(box => box.x + box.width))
+  const maxY = Math.max(...boxes.map(box => box.y + box.height))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * Where to start laying out new content so it sits to the right of what is already there
+ */
+export function getFreeOrigin(canvas: Pick<Canvas, 'links' | 'groups'>): { x: number; y: number } {
+  const bounds = getContentBounds(canvas)
+  return bounds ? { x: bounds.x + bounds.width + GROUP_GAP, y: bounds.y } : { x: 0, y: 0 }
+}
+
+/**
+ * Move items as a whole so the top-left corner of their content sits at the origin
+ */
+export function moveItemsTo(items: CanvasItems, origin: { x: number; y: number }): CanvasItems {
+  const bounds = getContentBounds(items)
+  if (!bounds) return items
+
+  const dx = origin.x - bounds.x
+  const dy = origin.y - bounds.y
+  return {
+    links: items.links.map(link => ({ ...link, x: link.x + dx, y: link.y + dy })),
+    groups: items.groups.map(group => ({ ...group, x: group.x + dx, y: group.y + dy })),
+    connections: items.connections,
+  }
+}
+
+function containsPoint(box: Bounds, x: number, y: number): boolean {
+  return x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height
+}
+
+/**
+ * Which group each link belongs to, judged by whether its position falls inside the
+ * group's bounds. A link inside overlapping groups belongs to the smallest one.
+ */
+export function getLinkGroups(canvas: Pick<Canvas, 'links' | 'groups'>): Map<string, Group> {
+  const bySize = [...(canvas.groups || [])].sort((a, b) => a.width * a.height - b.width * b.height)
+  const membership = new Map<string, Group>()
+
+  for (const link of canvas.links) {
+    const group = bySize.find(candidate => containsPoint(candidate, link.x, link.y))
+    if (group) membership.set(link.id, group)
+  }
+  return membership
+}
@@ -0,0 +1,66 @@
+import type { Canvas } from '@/types'
+
+function isSame<T>(a: T | undefined, b: T | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Three-way merge of an entity list keyed by id.
+ * Edits win over deletions, and local edits win when both sides changed the same entity.
+ */
+function mergeEntities<T extends { id: string }>(base: T[], local: T[], remote: T[]): T[] {
+  const baseById = new Map(base.map(entity => [entity.id, entity]))
+  const localById = new Map(local.map(entity => [entity.id, entity]))
+  const remoteById = new Map(remote.map(entity => [entity.id, entity]))
+
+  // Remote order first, then anything only this side knows about
+  const ids = [...remote.map(entity => entity.id), ...local.map(entity => entity.id).filter(id => !remoteById.has(id))]
+  const merged: T[] = []
+
+  for (const id of ids) {
+    const original = baseById.get(id)
+    const mine = localById.get(id)
+    const theirs = remoteById.get(id)
+
+    if (mine && theirs) {
+      merged.push(isSame(mine, original) ? theirs : mine)
+    } else if (mine) {
+      // Removed remotely: keep it only if it is new or was edited here
+      if (!original || !isSame(mine, original)) merged.push(mine)
+    } else if (theirs) {
+      // Removed locally: keep it only if it is new or was edited remotely
+      if (!original || !isSame(theirs, original)) merged.push(theirs)
+    }
+  }
+
+  return merged
+}
+
+function pickChanged<T>(base: T, local: T, remote: T): T {
+  return isSame(local, base) ? remote : local
+}
+
+/**
+ * Merge local edits and a newer stored version, both derived from `base`,
+ * at the level of individual links, connections and groups.
+ */
+export function mergeCanvases(base: Canvas, local: Canvas, remote: Canvas): Canvas {
+  const links = mergeEntities(base.links, local.links, remote.links)
+  const groups = mergeEntities(base.groups || [], local.groups || [], remote.groups || [])
+
+  // Drop connections whose endpoints did not survive the merge
+  const nodeIds = new Set([...links.map(link => link.id), ...groups.map(group => group.id)])
+  const connections = mergeEntities(base.connections, local.connections, remote.connections).filter(
+    conn => nodeIds.has(conn.sourceId) && nodeIds.has(conn.targetId)
+  )
+
+  return {
+    ...remote,
+    name: pickChanged(base.name, local.name, remote.name),
+    description: pickChanged(base.description, local.description, remote.description),
+    viewport: local.viewport,
+    links,
+    connections,
+    groups,
+  }
+}
@@ -0,0 +1,150 @@
+import type { Canvas, Connection, Group, Link } from '@/types'
+
+// Serializable description of every change the canvas store can make
+export type CanvasMutation =
+  | { type: 'updateCanvas'; updates: Partial<Canvas> }
+  | { type: 'addLink'; link: Link }
+  | { type: 'updateLink'; id: string; updates: Partial<Link> }
+  | { type: 'deleteLink'; id: string }
+  | { type: 'addConnection'; connection: Connection }
+  | { type: 'deleteConnection'; id: string }
+  | { type: 'addGroup'; group: Group }
+  | { type: 'updateGroup'; id: string; updates: Partial<Group> }
+  | { type: 'deleteGroup'; id: string }
+  | { type: 'setViewport'; viewport: Canvas['viewport'] }
+  // Swap in another version of the content (undo, redo), keeping the current viewport
+  | { type: 'replaceContent'; canvas: Canvas }
+
+/**
+ * Apply a mutation to a canvas, returning a new canvas object.
+ * Adds are idempotent so replaying a mutation is harmless.
+ */
+export function applyCanvasMutation(canvas: Canvas, mutation: CanvasMutation): Canvas {
+  switch (mutation.type) {
+    case 'updateCanvas':
+      return { ...canvas, ...mutation.updates }
+
+    case 'addLink':
+      if (canvas.links.some(link => link.id === mutation.link.id)) return canvas
+      return { ...canvas, links: [...canvas.links, mutation.link] }
+
+    case 'updateLink':
+      return {
+        ...canvas,
+        links: canvas.links.map(link =>
+          link.id === mutation.id ? { ...link, ...mutation.updates } : link
+        ),
+      }
+
+    case 'deleteLink':
+      return {
+        ...canvas,
+        links: canvas.links.filter(link => link.id !== mutation.id),
+        connections: canvas.connections.filter(
+          conn => conn.sourceId !== mutation.id && conn.targetId !== mutation.id
+        ),
+      }
+
+    case 'addConnection':
+      if (canvas.connections.some(conn => conn.id === mutation.connection.id)) return canvas
+      return { ...canvas, connections: [...canvas.connections, mutation.connection] }
+
+    case 'deleteConnection':
+      return {
+        ...canvas,
+        connections: canvas.connections.filter(conn => conn.id !== mutation.id),
+      }
+
+    case 'addGroup':
+      if ((canvas.groups || []).some(group => group.id === mutation.group.id)) return canvas
+      return { ...canvas, groups: [...(canvas.groups || []), mutation.group] }
+
+    case 'updateGroup':
+      return {
+        ...canvas,
+        groups: (canvas.groups || []).map(group =>
+          group.id === mutation.id ? { ...group, ...mutation.updates } : group
+        ),
+      }
+
+    case 'deleteGroup':
+      return {
+        ...canvas,
+        groups: (canvas.groups || []).filter(group => group.id !== mutation.id),
+        connections: canvas.connections.filter(
+          conn => conn.sourceId !== mutation.id && conn.targetId !== mutation.id
+        ),
+      }
+
+    case 'setViewport':
+      return { ...canvas, viewport: mutation.viewport }
+
+    case 'replaceContent':
+      // Passphrase protection belongs to the canvas, not to a version of its content
+      return { ...mutation.canvas, viewport: canvas.viewport, encryption: canvas.encryption }
+  }
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Updates that turn `from` into `to`, clearing fields `to` no longer has
+function getEntityUpdates<T extends object>(from: T, to: T): Partial<T> {
+  const cleared = Object.fromEntries(Object.keys(from).map(key => [key, undefined]))
+  return { ...cleared, ...to } as Partial<T>
+}
+
+/**
+ * Mutations that turn the content of `from` into that of `to`.
+ * Viewport and revision are left alone.
+ */
+export function diffCanvases(from: Canvas, to: Canvas): CanvasMutation[] {
+  const mutations: CanvasMutation[] = []
+
+  if (from.name !== to.name || from.description !== to.description) {
+    mutations.push({ type: 'updateCanvas', updates: { name: to.name, description: to.description } })
+  }
+
+  // Connections that changed are replaced, after their endpoints exist
+  const toConnections = new Map(to.connections.map(conn => [conn.id, conn]))
+  const fromConnections = new Map(from.connections.map(conn => [conn.id, conn]))
+  from.connections
+    .filter(conn => !isSame(conn, toConnections.get(conn.id)))
+    .forEach(conn => mutations.push({ type: 'deleteConnection', id: conn.id }))
+
+  const fromGroups = new Map((from.groups || []).map(group => [group.id, group]))
+  const toGroups = new Map((to.groups || []).map(group => [group.id, group]))
+  for (const group of to.groups || []) {
+    const previous = fromGroups.get(group.id)
+    if (!previous) {
+      mutations.push({ type: 'addGroup', group })
+    } else if (!isSame(previous, group)) {
+      mutations.push({ type: 'updateGroup', id: group.id, updates: getEntityUpdates(previous, group) })
+    }
+  }
+
+  const fromLinks = new Map(from.links.map(link => [link.id, link]))
+  const toLinks = new Map(to.links.map(link => [link.id, link]))
+  for (const link of to.links) {
+    const previous = fromLinks.get(link.id)
+    if (!previous) {
+      mutations.push({ type: 'addLink', link })
+    } else if (!isSame(previous, link)) {
+      mutations.push({ type: 'updateLink', id: link.id, updates: getEntityUpdates(previous, link) })
+    }
+  }
+
+  to.connections
+    .filter(conn => !isSame(conn, fromConnections.get(conn.id)))
+    .forEach(connection => mutations.push({ type: 'addConnection', connection }))
+
+  for (const link of from.links) {
+    if (!toLinks.has(link.id)) mutations.push({ type: 'deleteLink', id: link.id })
+  }
+  for (const group of from.groups || []) {
+    if (!toGroups.has(group.id)) mutations.push({ type: 'deleteGroup', id: group.id })
+  }
+
+  return mutations
+}
@@ -0,0 +1,195 @@
+import type { Canvas } from '@/types'
+import { canvasSchema, connectionSchema, groupSchema, linkSchema } from '@/lib/validations'
+import { generateId, getDomainFromUrl } from '@/lib/utils'
+
+export interface RepairResult {
+  // Null when the data could not be turned into a valid canvas
+  canvas: Canvas | null
+  fixes: string[]
+  errors: string[]
+}
+
+export interface CanvasRepairReport {
+  id: string
+  name: string
+  fixes: string[]
+  errors: string[]
+}
+
+type RawRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function describeItem(item: RawRecord, fallback: string): string {
+  const label = item.title || item.name || item.url || item.id
+  return typeof label === 'string' && label ? `"${label}"` : fallback
+}
+
+// Fill layout defaults a link card needs to render
+function repairLink(link: RawRecord): RawRecord {
+  return {
+    ...link,
+    title: typeof link.title === 'string' ? link.title : String(link.url ?? ''),
+    domain: typeof link.domain === 'string' ? link.domain : getDomainFromUrl(String(link.url ?? '')),
+    width: isFiniteNumber(link.width) ? link.width : 320,
+    height: isFiniteNumber(link.height) ? link.height : 200,
+    zIndex: isFiniteNumber(link.zIndex) ? link.zIndex : 1,
+  }
+}
+
+/**
+ * Keep only array entries that pass the schema, re-identifying duplicate ids
+ */
+function sanitizeItems<T extends { id: string }>(
+  items: unknown,
+  noun: string,
+  schema: { safeParse: (value: unknown) => { success: boolean; data?: T } },
+  fixes: string[],
+  prepare: (item: RawRecord) => RawRecord = item => item
+): T[] {
+  if (!Array.isArray(items)) {
+    if (items !== undefined) fixes.push(`Replaced invalid ${noun} list`)
+    return []
+  }
+
+  const seen = new Set<string>()
+  const result: T[] = []
+
+  items.forEach((item, index) => {
+    if (!isRecord(item)) {
+      fixes.push(`Dropped ${noun} #${index + 1}: not an object`)
+      return
+    }
+
+    const parsed = schema.safeParse(prepare(item))
+    if (!parsed.success || !parsed.data) {
+      fixes.push(`Dropped invalid ${noun} ${describeItem(item, `#${index + 1}`)}`)
+      return
+    }
+
+    const entity = parsed.data
+    if (seen.has(entity.id)) {
+      const id = generateId()
+      fixes.push(`Reassigned duplicate ${noun} id ${entity.id}`)
+      result.push({ ...entity, id })
+      seen.add(id)
+      return
+    }
+
+    seen.add(entity.id)
+    result.push(entity)
+  })
+
+  return result
+}
+
+/**
+ * Validate canvas data against the schema, fixing what can be fixed.
+ * Returns the repaired canvas together with a description of each fix.
+ */
+export function repairCanvas(input: unknown): RepairResult {
+  const fixes: string[] = []
+
+  if (!isRecord(input)) {
+    return { canvas: null, fixes, errors: ['Canvas data is not an object'] }
+  }
+
+  if (typeof input.id !== 'string' || !input.id) {
+    return { canvas: null, fixes, errors: ['Canvas has no id'] }
+  }
+
+  const now = new Date().toISOString()
+  const draft: RawRecord = { ...input }
+
+  if (typeof draft.name !== 'string' || !draft.name.trim()) {
+    draft.name = 'Untitled canvas'
+    fixes.push('Filled missing name')
+  } else if (draft.name.length > 100) {
+    draft.name = draft.name.slice(0, 100)
+    fixes.push('Shortened name to 100 characters')
+  }
+
+  if (draft.description !== undefined && typeof draft.description !== 'string') {
+    delete draft.description
+    fixes.push('Removed invalid description')
+  } else if (typeof draft.description === 'string' && draft.description.length > 500) {
+    draft.description = draft.description.slice(0, 500)
+    fixes.push('Shortened description to 500 characters')
+  }
+
+  if (!isRecord(draft.viewport) || !isFiniteNumber(draft.viewport.x) ||
+      !isFiniteNumber(draft.viewport.y) || !isFiniteNumber(draft.viewport.zoom) || draft.viewport.zoom <= 0) {
+    draft.viewport = { x: 0, y: 0, zoom: 1 }
+    fixes.push('Filled missing viewport')
+  }
+
+  if (typeof draft.revision !== 'number' || !Number.isInteger(draft.revision) || draft.revision < 0) {
+    draft.revision = 0
+    fixes.push('Reset invalid revision')
+  }
+
+  if (draft.groups === undefined) {
+    draft.groups = []
+    fixes.push('Filled missing groups')
+  }
+
+  for (const field of ['createdAt', 'updatedAt'] as const) {
+    if (typeof draft[field] !== 'string') {
+      draft[field] = now
+      fixes.push(`Filled missing ${field}`)
+    }
+  }
+
+  const links = sanitizeItems(draft.links, 'link', linkSchema, fixes, repairLink)
+  const groups = sanitizeItems(draft.groups, 'group', groupSchema, fixes)
+  const connections = sanitizeItems(draft.connections, 'connection', connectionSchema, fixes)
+
+  // Connections may join links or groups
+  const nodeIds = new Set([...links.map(link => link.id), ...groups.map(group => group.id)])
+  const attached = connections.filter(conn => nodeIds.has(conn.sourceId) && nodeIds.has(conn.targetId))
+  if (attached.length < connections.length) {
+    fixes.push(`Dropped ${connections.length - attached.length} dangling connection(s)`)
+  }
+
+  const parsed = canvasSchema.safeParse({ ...draft, links, groups, connections: attached })
+  if (!parsed.success) {
+    return {
+      canvas: null,
+      fixes,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'canvas'}: ${issue.message}`),
+    }
+  }
+
+  return { canvas: parsed.data, fixes, errors: [] }
+}
+
+/**
+ * Repair a list of canvases, keeping the valid ones and reporting every change
+ */
+export function repairCanvases(inputs: unknown[]): { canvases: Canvas[]; reports: CanvasRepairReport[] } {
+  const canvases: Canvas[] = []
+  const reports: CanvasRepairReport[] = []
+
+  inputs.forEach((input, index) => {
+    const { canvas, fixes, errors } = repairCanvas(input)
+    if (canvas) canvases.push(canvas)
+
+    if (fixes.length > 0 || errors.length > 0) {
+      const raw = isRecord(input) ? input : {}
+      reports.push({
+        id: typeof raw.id === 'string' ? raw.id : '',
+        name: typeof raw.name === 'string' && raw.name ? raw.name : `Canvas #${index + 1}`,
+        fixes,
+        errors,
+      })
+    }
+  })
+
+  return { canvases, reports }
+}
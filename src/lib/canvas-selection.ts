@@ -0,0 +1,46 @@
+import type { Canvas, Connection, Group, Link } from '@/types'
+import { generateId } from '@/lib/utils'
+
+export interface CanvasItems {
+  links: Link[]
+  groups: Group[]
+  connections: Connection[]
+}
+
+/**
+ * Pull the given links and groups out of a canvas, along with the connections
+ * between them. With `freshIds` every item gets a new id so it can be pasted
+ * next to the originals.
+ */
+export function extractCanvasItems(
+  canvas: Canvas,
+  nodeIds: string[],
+  { freshIds = false }: { freshIds?: boolean } = {}
+): CanvasItems {
+  const selected = new Set(nodeIds)
+  const idMap = new Map<string, string>()
+  const mapId = (id: string) => {
+    if (!freshIds) return id
+    if (!idMap.has(id)) idMap.set(id, generateId())
+    return idMap.get(id)!
+  }
+
+  const links = canvas.links
+    .filter(link => selected.has(link.id))
+    .map(link => ({ ...link, id: mapId(link.id) }))
+
+  const groups = (canvas.groups || [])
+    .filter(group => selected.has(group.id))
+    .map(group => ({ ...group, id: mapId(group.id) }))
+
+  const connections = canvas.connections
+    .filter(conn => selected.has(conn.sourceId) && selected.has(conn.targetId))
+    .map(conn => ({
+      ...conn,
+      id: freshIds ? generateId() : conn.id,
+      sourceId: mapId(conn.sourceId),
+      targetId: mapId(conn.targetId),
+    }))
+
+  return { links, groups, connections }
+}
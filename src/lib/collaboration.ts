@@ -0,0 +1,194 @@
+import * as Y from 'yjs'
+import { WebsocketProvider } from 'y-websocket'
+import { IndexeddbPersistence, clearDocument } from 'y-indexeddb'
+import type { Canvas } from '@/types'
+import { isCanvasDocEmpty, readCanvasFromDoc, writeCanvasToDoc } from '@/lib/canvas-doc'
+import { mergeCanvases } from '@/lib/canvas-merge'
+
+// Collaboration is on when the deployment points at a y-websocket server
+export const COLLAB_SERVER_URL = process.env.NEXT_PUBLIC_COLLAB_SERVER_URL || ''
+
+// How long a first visit waits for the server before seeding the shared document itself
+const INITIAL_SYNC_TIMEOUT = 3000
+
+const USER_STORAGE_KEY = 'collab-user'
+
+// Minimum time between cursor broadcasts
+const CURSOR_INTERVAL = 50
+
+const USER_COLORS = ['#FF4F00', '#2563EB', '#16A34A', '#9333EA', '#DB2777', '#CA8A04', '#0891B2', '#DC2626']
+
+// Marks document changes made by this client
+const LOCAL_ORIGIN = Symbol('local')
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'offline'
+
+export interface CollaboratorInfo {
+  name: string
+  color: string
+}
+
+export interface Collaborator extends CollaboratorInfo {
+  clientId: number
+  // Pointer position in canvas coordinates
+  cursor: { x: number; y: number } | null
+  selection: string[]
+}
+
+interface CollaborationHandlers {
+  // The shared content changed through another client
+  onRemoteChange: (canvas: Canvas) => void
+  onCollaboratorsChange: (collaborators: Collaborator[]) => void
+  onStatusChange: (status: CollaborationStatus) => void
+}
+
+export interface CollaborationSession {
+  // Publish the local canvas content
+  push: (canvas: Canvas) => void
+  setCursor: (cursor: { x: number; y: number } | null) => void
+  setSelection: (nodeIds: string[]) => void
+  setUser: (user: CollaboratorInfo) => void
+  destroy: () => void
+}
+
+export function isCollaborationEnabled(): boolean {
+  return COLLAB_SERVER_URL !== ''
+}
+
+// Name and color this browser shows to others, created on first use
+export function getLocalCollaborator(): CollaboratorInfo {
+  try {
+    const stored = localStorage.getItem(USER_STORAGE_KEY)
+    if (stored) return JSON.parse(stored) as CollaboratorInfo
+  } catch {
+    // Fall through to a new identity
+  }
+
+  const user = {
+    name: `Guest ${Math.floor(Math.random() * 900) + 100}`,
+    color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  }
+  saveLocalCollaborator(user)
+  return user
+}
+
+export function saveLocalCollaborator(user: CollaboratorInfo): void {
+  try {
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user))
+  } catch (error) {
+    console.error('Error saving collaborator name:', error)
+  }
+}
+
+function roomName(canvasId: string): string {
+  return `canvas-${canvasId}`
+}
+
+// Delete this browser's copy of a canvas's shared document
+export async function clearLocalSessionCopy(canvasId: string): Promise<void> {
+  try {
+    await clearDocument(`collab:${roomName(canvasId)}`)
+  } catch (error) {
+    console.error('Error clearing local collaboration copy:', error)
+  }
+}
+
+/**
+ * Join the shared document for a canvas. Edits are kept in IndexedDB as well,
+ * so changes made offline merge with everyone else's once the connection is back.
+ */
+export function joinCanvasSession(canvas: Canvas, handlers: CollaborationHandlers): CollaborationSession {
+  const room = roomName(canvas.id)
+  const doc = new Y.Doc()
+  const localCopy = new IndexeddbPersistence(`collab:${room}`, doc)
+  const provider = new WebsocketProvider(COLLAB_SERVER_URL, room, doc)
+  const { awareness } = provider
+
+  // Content as loaded, and with local edits made since
+  const loaded = canvas
+  let latest = canvas
+  let isReady = false
+
+  // Start sharing: seed an empty document, or fold in edits made while it was loading
+  const start = () => {
+    if (isReady) return
+    isReady = true
+    clearTimeout(seedTimeout)
+
+    if (isCanvasDocEmpty(doc)) {
+      writeCanvasToDoc(doc, latest, LOCAL_ORIGIN)
+      return
+    }
+
+    const merged = mergeCanvases(loaded, latest, readCanvasFromDoc(doc, latest))
+    writeCanvasToDoc(doc, merged, LOCAL_ORIGIN)
+    handlers.onRemoteChange(merged)
+  }
+
+  // Prefer the server's copy on a first visit so stale local content doesn't resurrect deleted items
+  const seedTimeout = setTimeout(start, INITIAL_SYNC_TIMEOUT)
+  provider.on('sync', isSynced => {
+    if (isSynced) start()
+  })
+  localCopy.whenSynced.then(() => {
+    if (!isCanvasDocEmpty(doc)) start()
+  })
+
+  doc.on('update', (_update, origin) => {
+    if (isReady && origin !== LOCAL_ORIGIN) {
+      handlers.onRemoteChange(readCanvasFromDoc(doc, latest))
+    }
+  })
+
+  provider.on('status', ({ status }) => {
+    handlers.onStatusChange(status === 'connected' ? 'connected' : status === 'connecting' ? 'connecting' : 'offline')
+  })
+
+  awareness.setLocalState({ user: getLocalCollaborator(), cursor: null, selection: [] })
+  awareness.on('change', () => {
+    const collaborators: Collaborator[] = []
+    awareness.getStates().forEach((state, clientId) => {
+      if (clientId === doc.clientID || !state.user) return
+      collaborators.push({
+        clientId,
+        ...(state.user as CollaboratorInfo),
+        cursor: state.cursor ?? null,
+        selection: state.selection ?? [],
+      })
+    })
+    handlers.onCollaboratorsChange(collaborators)
+  })
+
+  // Send at most one cursor position per interval, always ending with the latest
+  let pendingCursor: Collaborator['cursor'] | undefined
+  let cursorTimeout: ReturnType<typeof setTimeout> | null = null
+  const flushCursor = () => {
+    cursorTimeout = null
+    if (pendingCursor === undefined) return
+    awareness.setLocalStateField('cursor', pendingCursor)
+    pendingCursor = undefined
+    cursorTimeout = setTimeout(flushCursor, CURSOR_INTERVAL)
+  }
+
+  return {
+    push: (next: Canvas) => {
+      latest = next
+      if (isReady) {
+        writeCanvasToDoc(doc, next, LOCAL_ORIGIN)
+      }
+    },
+    setCursor: cursor => {
+      pendingCursor = cursor
+      if (!cursorTimeout) flushCursor()
+    },
+    setSelection: nodeIds => awareness.setLocalStateField('selection', nodeIds),
+    setUser: user => awareness.setLocalStateField('user', user),
+    destroy: () => {
+      clearTimeout(seedTimeout)
+      if (cursorTimeout) clearTimeout(cursorTimeout)
+      provider.destroy()
+      localCopy.destroy()
+      doc.destroy()
+    },
+  }
+}
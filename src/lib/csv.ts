@@ -0,0 +1,62 @@
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas, doubled
+ * quotes and line breaks, as written by spreadsheets and most exporters.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Drop a byte order mark, which some exporters write
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  // Blank lines carry no record
+  return rows.filter(fields => fields.some(value => value.trim()))
+}
+
+/**
+ * Read CSV text with a header row into one record per row, keyed by the
+ * lowercased column names
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+
+  const columns = header.map(name => name.trim().toLowerCase())
+  return rows.map(fields =>
+    Object.fromEntries(columns.map((column, index) => [column, fields[index]?.trim() ?? '']))
+  )
+}
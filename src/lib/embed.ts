@@ -0,0 +1,73 @@
+import type { Viewport } from '@xyflow/react'
+
+// Lets the parent page tell our messages apart from other frames'
+const MESSAGE_SOURCE = 'link-canvas'
+
+export type EmbedTheme = 'light' | 'dark' | 'system'
+
+export interface EmbedOptions {
+  // Initial viewport; the whole canvas is fitted into view when missing
+  viewport?: Viewport
+  theme: EmbedTheme
+  showMiniMap: boolean
+  showControls: boolean
+}
+
+export type EmbedMessage =
+  // The canvas rendered (or failed to) and the frame is ready
+  | { type: 'ready'; canvasId: string; name: string }
+  | { type: 'error'; message: string }
+  // The frame's own size changed
+  | { type: 'resize'; width: number; height: number }
+  // A link was opened from the canvas
+  | { type: 'navigate'; url: string }
+  // The visitor panned or zoomed
+  | { type: 'viewport'; viewport: Viewport }
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+function readParam(params: SearchParams, key: string): string | undefined {
+  const value = params[key]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function readFlag(params: SearchParams, key: string, fallback: boolean): boolean {
+  const value = readParam(params, key)
+  if (value === undefined) return fallback
+  return !['0', 'false', 'no', 'off'].includes(value.toLowerCase())
+}
+
+function readNumber(params: SearchParams, key: string): number | undefined {
+  const value = Number(readParam(params, key))
+  return readParam(params, key) !== undefined && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Read embed options from the query string, e.g.
+ * `?x=0&y=0&zoom=1&theme=dark&minimap=1&controls=0`
+ */
+export function parseEmbedOptions(params: SearchParams): EmbedOptions {
+  const x = readNumber(params, 'x')
+  const y = readNumber(params, 'y')
+  const zoom = readNumber(params, 'zoom')
+  const theme = readParam(params, 'theme')
+
+  return {
+    viewport: x !== undefined || y !== undefined || zoom !== undefined
+      ? { x: x ?? 0, y: y ?? 0, zoom: Math.min(Math.max(zoom ?? 1, 0.1), 4) }
+      : undefined,
+    theme: theme === 'dark' || theme === 'light' ? theme : 'system',
+    showMiniMap: readFlag(params, 'minimap', false),
+    showControls: readFlag(params, 'controls', true),
+  }
+}
+
+/**
+ * Tell the embedding page what happened. Does nothing outside an iframe.
+ */
+export function postToParent(message: EmbedMessage): void {
+  if (typeof window === 'undefined' || window.parent === window) return
+  // Deliberately '*': any site may embed a canvas, so the parent's origin is not
+  // known in advance. Messages only carry what the frame already shows.
+  window.parent.postMessage({ source: MESSAGE_SOURCE, ...message }, '*')
+}
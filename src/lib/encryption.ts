@@ -0,0 +1,180 @@
+import type { Canvas, CanvasEncryption } from '@/types'
+import { base64UrlToBytes, bytesToBase64Url } from '@/lib/utils'
+
+// PBKDF2-SHA256 rounds for new keys; stored alongside the salt so it can be raised later
+const PBKDF2_ITERATIONS = 600000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+// Passphrase-encrypted data with everything needed to decrypt it except the passphrase
+export interface EncryptedPayload {
+  salt: string
+  iterations: number
+  iv: string
+  data: string
+}
+
+// Thrown when a passphrase does not decrypt the data
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase')
+    this.name = 'WrongPassphraseError'
+  }
+}
+
+// Keys of unlocked canvases, by salt. Kept in memory only, so each session unlocks again.
+const sessionKeys = new Map<string, CryptoKey>()
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64UrlToBytes(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+async function encryptText(key: CryptoKey, text: string): Promise<{ iv: string; data: string }> {
+  const iv = randomBytes(IV_BYTES)
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text))
+  return { iv: bytesToBase64Url(iv), data: bytesToBase64Url(new Uint8Array(data)) }
+}
+
+async function decryptText(key: CryptoKey, iv: string, data: string): Promise<string> {
+  try {
+    const text = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64UrlToBytes(iv) },
+      key,
+      base64UrlToBytes(data)
+    )
+    return new TextDecoder().decode(text)
+  } catch {
+    // AES-GCM cannot tell a wrong key from tampered data; the key is the usual suspect
+    throw new WrongPassphraseError()
+  }
+}
+
+/**
+ * Encrypt text with a passphrase, e.g. for a protected backup file
+ */
+export async function encryptWithPassphrase(text: string, passphrase: string): Promise<EncryptedPayload> {
+  const salt = bytesToBase64Url(randomBytes(SALT_BYTES))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  return { salt, iterations: PBKDF2_ITERATIONS, ...(await encryptText(key, text)) }
+}
+
+export async function decryptWithPassphrase(payload: EncryptedPayload, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, payload.salt, payload.iterations)
+  return decryptText(key, payload.iv, payload.data)
+}
+
+// Everything in a canvas that is encrypted while stored
+type CanvasContent = Pick<Canvas, 'description' | 'links' | 'connections' | 'groups'>
+
+// Whether the canvas holds only ciphertext, i.e. was read from storage without its key
+export function isCanvasSealed(canvas: Canvas): boolean {
+  return Boolean(canvas.encryption?.data)
+}
+
+// Whether the canvas cannot be read or saved until its passphrase is entered
+export function isCanvasLocked(canvas: Canvas): boolean {
+  return Boolean(canvas.encryption) && !sessionKeys.has(canvas.encryption!.salt)
+}
+
+function getSessionKey(encryption: CanvasEncryption): CryptoKey {
+  const key = sessionKeys.get(encryption.salt)
+  if (!key) {
+    throw new Error('The canvas is locked')
+  }
+  return key
+}
+
+/**
+ * Create passphrase protection for a canvas, unlocked for this session
+ */
+export async function createCanvasEncryption(passphrase: string): Promise<CanvasEncryption> {
+  const salt = bytesToBase64Url(randomBytes(SALT_BYTES))
+  sessionKeys.set(salt, await deriveKey(passphrase, salt, PBKDF2_ITERATIONS))
+  return { salt, iterations: PBKDF2_ITERATIONS }
+}
+
+// Forget the key of a canvas so it has to be unlocked again
+export function forgetCanvasKey(canvas: Canvas): void {
+  if (canvas.encryption) {
+    sessionKeys.delete(canvas.encryption.salt)
+  }
+}
+
+/**
+ * Encrypt any value with the key of an unlocked canvas
+ */
+export async function sealValue(encryption: CanvasEncryption, value: unknown): Promise<CanvasEncryption> {
+  const { salt, iterations } = encryption
+  return { salt, iterations, ...(await encryptText(getSessionKey(encryption), JSON.stringify(value))) }
+}
+
+export async function openValue<T>(encryption: CanvasEncryption): Promise<T> {
+  if (!encryption.iv || !encryption.data) {
+    throw new Error('Nothing to decrypt')
+  }
+  return JSON.parse(await decryptText(getSessionKey(encryption), encryption.iv, encryption.data)) as T
+}
+
+/**
+ * The stored form of a canvas: content of protected canvases is moved into ciphertext.
+ * Unprotected and already sealed canvases are returned as they are.
+ */
+export async function sealCanvas(canvas: Canvas): Promise<Canvas> {
+  if (!canvas.encryption || isCanvasSealed(canvas)) return canvas
+
+  const content: CanvasContent = {
+    description: canvas.description,
+    links: canvas.links,
+    connections: canvas.connections,
+    groups: canvas.groups,
+  }
+  return {
+    ...canvas,
+    description: undefined,
+    links: [],
+    connections: [],
+    groups: [],
+    encryption: await sealValue(canvas.encryption, content),
+  }
+}
+
+/**
+ * Decrypt a sealed canvas if its key is known this session; otherwise it stays sealed
+ */
+export async function openCanvas(canvas: Canvas): Promise<Canvas> {
+  if (!isCanvasSealed(canvas) || isCanvasLocked(canvas)) return canvas
+
+  const content = await openValue<CanvasContent>(canvas.encryption!)
+  const { salt, iterations } = canvas.encryption!
+  return { ...canvas, ...content, encryption: { salt, iterations } }
+}
+
+/**
+ * Check a passphrase against a sealed canvas and remember its key for this session
+ */
+export async function unlockCanvas(canvas: Canvas, passphrase: string): Promise<Canvas> {
+  const encryption = canvas.encryption
+  if (!encryption?.iv || !encryption.data) return canvas
+
+  const key = await deriveKey(passphrase, encryption.salt, encryption.iterations)
+  await decryptText(key, encryption.iv, encryption.data)
+  sessionKeys.set(encryption.salt, key)
+  return openCanvas(canvas)
+}
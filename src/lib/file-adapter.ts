@@ -0,0 +1,108 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import type { Canvas } from '@/types'
+import { CURRENT_SCHEMA_VERSION, migrateCanvas } from '@/lib/migrations'
+import {
+  checkStoredCanvas,
+  resolveRevision,
+  toCanvasSummary,
+  type SaveCanvasOptions,
+  type StorageAdapter,
+} from '@/lib/storage-adapter'
+
+// Server-side only: one JSON file per canvas in CANVAS_DATA_DIR
+const DATA_DIR = process.env.CANVAS_DATA_DIR || path.join(process.cwd(), '.data', 'canvases')
+
+// Each file records the schema it was written with so it can be migrated on read
+interface CanvasFile {
+  schemaVersion: number
+  canvas: unknown
+}
+
+function canvasPath(id: string): string {
+  // Encoding keeps ids from escaping the data directory
+  return path.join(DATA_DIR, `${encodeURIComponent(id)}.json`)
+}
+
+async function readCanvasFile(file: string): Promise<unknown | null> {
+  try {
+    const { schemaVersion, canvas } = JSON.parse(await readFile(file, 'utf8')) as CanvasFile
+    return schemaVersion < CURRENT_SCHEMA_VERSION ? migrateCanvas(canvas, schemaVersion) : canvas
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+// Write through a temporary file so readers never see a partial canvas
+async function writeCanvasFile(canvas: Canvas): Promise<void> {
+  const file = canvasPath(canvas.id)
+  const contents: CanvasFile = { schemaVersion: CURRENT_SCHEMA_VERSION, canvas }
+
+  await mkdir(DATA_DIR, { recursive: true })
+  await writeFile(`${file}.tmp`, JSON.stringify(contents, null, 2))
+  await rename(`${file}.tmp`, file)
+}
+
+async function readAllRecords(): Promise<unknown[]> {
+  let files: string[]
+  try {
+    files = (await readdir(DATA_DIR)).filter(file => file.endsWith('.json'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const records = await Promise.all(files.map(file => readCanvasFile(path.join(DATA_DIR, file))))
+  return records.filter(record => record !== null)
+}
+
+// Writes are serialized so revision checks and file replacement happen as one step
+let writeLock: Promise<unknown> = Promise.resolve()
+function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
+  const next = writeLock.then(task)
+  writeLock = next.catch(() => undefined)
+  return next
+}
+
+/**
+ * Keeps canvases as JSON files on the server's disk
+ */
+export const fileAdapter: StorageAdapter = {
+  async listCanvases() {
+    const canvases = (await readAllRecords()).map(checkStoredCanvas).filter((c): c is Canvas => Boolean(c))
+    return canvases.map(toCanvasSummary)
+  },
+
+  async readCanvases() {
+    return readAllRecords()
+  },
+
+  async readCanvas(id: string) {
+    return readCanvasFile(canvasPath(id))
+  },
+
+  async writeCanvas(canvas: Canvas, options: SaveCanvasOptions) {
+    return withWriteLock(async () => {
+      const stored = checkStoredCanvas(await readCanvasFile(canvasPath(canvas.id)))
+      const saved = resolveRevision(stored, canvas, options)
+      await writeCanvasFile(saved)
+      return saved
+    })
+  },
+
+  async removeCanvas(id: string) {
+    await withWriteLock(() => rm(canvasPath(id), { force: true }))
+  },
+
+  async writeCanvases(upserts: Canvas[], removals: string[]) {
+    await withWriteLock(async () => {
+      for (const canvas of upserts) {
+        await writeCanvasFile(canvas)
+      }
+      for (const id of removals) {
+        await rm(canvasPath(id), { force: true })
+      }
+    })
+  },
+}
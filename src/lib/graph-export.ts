@@ -0,0 +1,206 @@
+import { getLinkGroups } from '@/lib/canvas-layout'
+import { escapeHtml } from '@/lib/utils'
+import type { Canvas, Connection, Group, Link } from '@/types'
+
+// Connection graph exporters. Link titles label the nodes, groups become
+// subgraphs or clusters, and connections keep their label, style and color.
+
+interface GraphOutline {
+  ungrouped: Link[]
+  groups: { group: Group; links: Link[] }[]
+}
+
+function outlineGraph(canvas: Canvas): GraphOutline {
+  const membership = getLinkGroups(canvas)
+  return {
+    ungrouped: canvas.links.filter(link => !membership.has(link.id)),
+    groups: (canvas.groups || []).map(group => ({
+      group,
+      links: canvas.links.filter(link => membership.get(link.id)?.id === group.id),
+    })),
+  }
+}
+
+// Connections whose ends are both still on the canvas
+function graphConnections(canvas: Canvas): Connection[] {
+  const ids = new Set([...canvas.links.map(link => link.id), ...(canvas.groups || []).map(group => group.id)])
+  return canvas.connections.filter(conn => ids.has(conn.sourceId) && ids.has(conn.targetId))
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+// Canvas ids are not valid identifiers everywhere, so nodes get short sequential ones
+function createIdMap(canvas: Canvas): Map<string, string> {
+  return new Map([
+    ...canvas.links.map((link, index): [string, string] => [link.id, `link${index + 1}`]),
+    ...(canvas.groups || []).map((group, index): [string, string] => [group.id, `group${index + 1}`]),
+  ])
+}
+
+function mermaidText(text: string): string {
+  return `"${singleLine(text).replace(/"/g, '#quot;')}"`
+}
+
+/**
+ * Write the canvas as a Mermaid flowchart
+ */
+export function toMermaid(canvas: Canvas): string {
+  const ids = createIdMap(canvas)
+  const outline = outlineGraph(canvas)
+  const lines = ['---', `title: ${JSON.stringify(singleLine(canvas.name))}`, '---', 'flowchart LR']
+
+  const nodeLine = (link: Link, indent: string) => `${indent}${ids.get(link.id)}[${mermaidText(link.title || link.url)}]`
+
+  outline.ungrouped.forEach(link => lines.push(nodeLine(link, '  ')))
+  for (const { group, links } of outline.groups) {
+    lines.push(`  subgraph ${ids.get(group.id)}[${mermaidText(group.name)}]`)
+    links.forEach(link => lines.push(nodeLine(link, '    ')))
+    lines.push('  end')
+  }
+
+  const linkStyles: string[] = []
+  graphConnections(canvas).forEach((conn, index) => {
+    const arrow = conn.style === 'dashed' ? '-.->' : conn.style === 'animated' ? '==>' : '-->'
+    const label = conn.label ? `|${mermaidText(conn.label)}|` : ''
+    lines.push(`  ${ids.get(conn.sourceId)} ${arrow}${label} ${ids.get(conn.targetId)}`)
+    if (conn.color) linkStyles.push(`  linkStyle ${index} stroke:${conn.color}`)
+  })
+  lines.push(...linkStyles)
+
+  for (const { group } of outline.groups) {
+    lines.push(`  style ${ids.get(group.id)} stroke:${group.color}`)
+  }
+  canvas.links.forEach(link => lines.push(`  click ${ids.get(link.id)} href "${link.url.replace(/"/g, '%22')}" _blank`))
+
+  return lines.join('\n') + '\n'
+}
+
+function dotText(text: string): string {
+  return `"${singleLine(text).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Write the canvas as a Graphviz DOT digraph. Connections to a group end at
+ * its cluster's border, through an invisible anchor node.
+ */
+export function toDot(canvas: Canvas): string {
+  const ids = createIdMap(canvas)
+  const outline = outlineGraph(canvas)
+  const lines = [
+    `digraph ${dotText(canvas.name)} {`,
+    '  compound=true',
+    '  rankdir=LR',
+    '  node [shape=box]',
+  ]
+
+  const nodeLine = (link: Link, indent: string) =>
+    `${indent}${ids.get(link.id)} [label=${dotText(link.title || link.url)} URL=${dotText(link.url)}]`
+
+  outline.ungrouped.forEach(link => lines.push(nodeLine(link, '  ')))
+  for (const { group, links } of outline.groups) {
+    lines.push(`  subgraph cluster_${ids.get(group.id)} {`)
+    lines.push(`    label=${dotText(group.name)}`)
+    lines.push(`    color=${dotText(group.color)}`)
+    lines.push(`    ${ids.get(group.id)} [shape=point style=invis]`)
+    links.forEach(link => lines.push(nodeLine(link, '    ')))
+    lines.push('  }')
+  }
+
+  const groupIds = new Set((canvas.groups || []).map(group => group.id))
+  for (const conn of graphConnections(canvas)) {
+    const attributes: string[] = []
+    if (conn.label) attributes.push(`label=${dotText(conn.label)}`)
+    if (conn.style === 'dashed') attributes.push('style=dashed')
+    if (conn.style === 'animated') attributes.push('style=bold')
+    if (conn.color) attributes.push(`color=${dotText(conn.color)}`)
+    if (groupIds.has(conn.sourceId)) attributes.push(`ltail=cluster_${ids.get(conn.sourceId)}`)
+    if (groupIds.has(conn.targetId)) attributes.push(`lhead=cluster_${ids.get(conn.targetId)}`)
+
+    const suffix = attributes.length > 0 ? ` [${attributes.join(' ')}]` : ''
+    lines.push(`  ${ids.get(conn.sourceId)} -> ${ids.get(conn.targetId)}${suffix}`)
+  }
+
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+function graphmlData(key: string, value: string | number | undefined, indent: string): string[] {
+  return value === undefined || value === '' ? [] : [`${indent}<data key="${key}">${escapeHtml(String(value))}</data>`]
+}
+
+function graphmlNode(link: Link, indent: string): string[] {
+  return [
+    `${indent}<node id="${escapeHtml(link.id)}">`,
+    ...graphmlData('kind', 'link', `${indent}  `),
+    ...graphmlData('label', link.title || link.url, `${indent}  `),
+    ...graphmlData('url', link.url, `${indent}  `),
+    ...graphmlData('description', link.description, `${indent}  `),
+    ...graphmlData('x', link.x, `${indent}  `),
+    ...graphmlData('y', link.y, `${indent}  `),
+    ...graphmlData('width', link.width, `${indent}  `),
+    ...graphmlData('height', link.height, `${indent}  `),
+    `${indent}</node>`,
+  ]
+}
+
+/**
+ * Write the canvas as GraphML. Groups are nodes with a nested graph of their
+ * links; positions and sizes are kept as node data.
+ */
+export function toGraphml(canvas: Canvas): string {
+  const outline = outlineGraph(canvas)
+  const keys: [id: string, target: 'node' | 'edge' | 'all', type: 'string' | 'double'][] = [
+    ['kind', 'node', 'string'],
+    ['label', 'all', 'string'],
+    ['url', 'node', 'string'],
+    ['description', 'node', 'string'],
+    ['color', 'all', 'string'],
+    ['style', 'edge', 'string'],
+    ['x', 'node', 'double'],
+    ['y', 'node', 'double'],
+    ['width', 'node', 'double'],
+    ['height', 'node', 'double'],
+  ]
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys.map(([id, target, type]) => `  <key id="${id}" for="${target}" attr.name="${id}" attr.type="${type}"/>`),
+    `  <graph id="${escapeHtml(canvas.id)}" edgedefault="directed">`,
+    ...graphmlData('label', canvas.name, '    '),
+  ]
+
+  outline.ungrouped.forEach(link => lines.push(...graphmlNode(link, '    ')))
+  for (const { group, links } of outline.groups) {
+    lines.push(
+      `    <node id="${escapeHtml(group.id)}">`,
+      ...graphmlData('kind', 'group', '      '),
+      ...graphmlData('label', group.name, '      '),
+      ...graphmlData('color', group.color, '      '),
+      ...graphmlData('x', group.x, '      '),
+      ...graphmlData('y', group.y, '      '),
+      ...graphmlData('width', group.width, '      '),
+      ...graphmlData('height', group.height, '      '),
+      `      <graph id="${escapeHtml(group.id)}::" edgedefault="directed">`,
+    )
+    links.forEach(link => lines.push(...graphmlNode(link, '        ')))
+    lines.push('      </graph>', '    </node>')
+  }
+
+  for (const conn of graphConnections(canvas)) {
+    lines.push(
+      `    <edge id="${escapeHtml(conn.id)}" source="${escapeHtml(conn.sourceId)}" target="${escapeHtml(conn.targetId)}">`,
+      ...graphmlData('label', conn.label, '      '),
+      ...graphmlData('style', conn.style, '      '),
+      ...graphmlData('color', conn.color, '      '),
+      '    </edge>',
+    )
+  }
+
+  lines.push('  </graph>', '</graphml>')
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,70 @@
+import type { Canvas, CanvasSummary } from '@/types'
+import {
+  RevisionConflictError,
+  type SaveCanvasOptions,
+  type StorageAdapter,
+} from '@/lib/storage-adapter'
+
+const API_BASE = '/api/canvases'
+
+function canvasUrl(id: string): string {
+  return `${API_BASE}/${encodeURIComponent(id)}`
+}
+
+// Fetch JSON from the canvas API, turning error responses into exceptions
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  })
+
+  const body = response.status === 204 ? null : await response.json().catch(() => null)
+
+  if (response.status === 409 && body?.stored) {
+    throw new RevisionConflictError(body.stored)
+  }
+  if (!response.ok) {
+    throw new Error(body?.error || `Canvas API request failed with status ${response.status}`)
+  }
+  return body as T
+}
+
+/**
+ * Keeps canvases on the server behind the /api/canvases route handlers
+ */
+export const httpAdapter: StorageAdapter = {
+  async listCanvases() {
+    return request<CanvasSummary[]>(API_BASE)
+  },
+
+  async readCanvases() {
+    return request<unknown[]>(`${API_BASE}?full=true`)
+  },
+
+  async readCanvas(id: string) {
+    const response = await fetch(canvasUrl(id))
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Canvas API request failed with status ${response.status}`)
+    }
+    return response.json()
+  },
+
+  async writeCanvas(canvas: Canvas, options: SaveCanvasOptions) {
+    return request<Canvas>(`${canvasUrl(canvas.id)}${options.force ? '?force=true' : ''}`, {
+      method: 'PUT',
+      body: JSON.stringify(canvas),
+    })
+  },
+
+  async removeCanvas(id: string) {
+    await request<null>(canvasUrl(id), { method: 'DELETE' })
+  },
+
+  async writeCanvases(upserts: Canvas[], removals: string[]) {
+    await Promise.all([
+      ...upserts.map(canvas => httpAdapter.writeCanvas(canvas, { force: true })),
+      ...removals.map(id => httpAdapter.removeCanvas(id)),
+    ])
+  },
+}
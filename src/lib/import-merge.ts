@@ -0,0 +1,193 @@
+import type { Canvas, Connection, Link } from '@/types'
+import { generateId } from '@/lib/utils'
+import type { CanvasRepairReport } from '@/lib/canvas-repair'
+
+export type ImportMode = 'replace' | 'merge' | 'copy'
+
+// How to settle a canvas that exists both locally and in the import file
+export type ConflictResolution = 'local' | 'incoming' | 'both'
+
+export interface EntityChanges {
+  added: string[]
+  changed: string[]
+}
+
+export interface CanvasImportPreview {
+  id: string
+  name: string
+  status: 'new' | 'conflict'
+  incomingUpdatedAt: string
+  localUpdatedAt?: string
+  newer?: 'local' | 'incoming' | 'same'
+  links: EntityChanges
+  connections: EntityChanges
+}
+
+export interface ImportPreview {
+  // Whether the file is a full backup or a single exported canvas
+  scope: 'all' | 'canvas'
+  canvases: CanvasImportPreview[]
+  // Local canvases missing from the file, removed by a replace-all import
+  localOnly: { id: string; name: string }[]
+  // Problems found and fixed (or canvases skipped) while validating the file
+  repairs: CanvasRepairReport[]
+}
+
+export interface ImportPlan {
+  // Canvases to write, with their original timestamps intact
+  upserts: Canvas[]
+  // Canvas ids to remove from storage
+  removals: string[]
+}
+
+function isSameEntity<T>(a: T, b: T): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function describeConnection(connection: Connection, links: Link[]): string {
+  const titleOf = (id: string) => links.find(link => link.id === id)?.title || id
+  const label = `${titleOf(connection.sourceId)} → ${titleOf(connection.targetId)}`
+  return connection.label ? `${label} (${connection.label})` : label
+}
+
+function diffEntities<T extends { id: string }>(
+  incoming: T[],
+  local: T[],
+  describe: (entity: T) => string
+): EntityChanges {
+  const localById = new Map(local.map(entity => [entity.id, entity]))
+  const changes: EntityChanges = { added: [], changed: [] }
+
+  for (const entity of incoming) {
+    const existing = localById.get(entity.id)
+    if (!existing) {
+      changes.added.push(describe(entity))
+    } else if (!isSameEntity(existing, entity)) {
+      changes.changed.push(describe(entity))
+    }
+  }
+
+  return changes
+}
+
+function compareUpdatedAt(local: Canvas, incoming: Canvas): 'local' | 'incoming' | 'same' {
+  const localTime = new Date(local.updatedAt).getTime()
+  const incomingTime = new Date(incoming.updatedAt).getTime()
+  if (incomingTime > localTime) return 'incoming'
+  if (localTime > incomingTime) return 'local'
+  return 'same'
+}
+
+/**
+ * Describe what importing the given canvases would add or change locally
+ */
+export function buildImportPreview(
+  incoming: Canvas[],
+  local: Canvas[],
+  repairs: CanvasRepairReport[] = [],
+  scope: ImportPreview['scope'] = 'all'
+): ImportPreview {
+  const localById = new Map(local.map(canvas => [canvas.id, canvas]))
+  const incomingIds = new Set(incoming.map(canvas => canvas.id))
+
+  const canvases = incoming.map((canvas): CanvasImportPreview => {
+    const existing = localById.get(canvas.id)
+    const links = diffEntities(canvas.links, existing?.links || [], link => link.title || link.url)
+    const connections = diffEntities(canvas.connections, existing?.connections || [], conn =>
+      describeConnection(conn, canvas.links)
+    )
+
+    if (!existing) {
+      return {
+        id: canvas.id,
+        name: canvas.name,
+        status: 'new',
+        incomingUpdatedAt: canvas.updatedAt,
+        links,
+        connections,
+      }
+    }
+
+    return {
+      id: canvas.id,
+      name: canvas.name,
+      status: 'conflict',
+      incomingUpdatedAt: canvas.updatedAt,
+      localUpdatedAt: existing.updatedAt,
+      newer: compareUpdatedAt(existing, canvas),
+      links,
+      connections,
+    }
+  })
+
+  const localOnly = local
+    .filter(canvas => !incomingIds.has(canvas.id))
+    .map(canvas => ({ id: canvas.id, name: canvas.name }))
+
+  return { scope, canvases, localOnly, repairs }
+}
+
+/**
+ * Suggested resolution for a conflict: keep whichever side was updated last
+ */
+export function getDefaultResolution(preview: CanvasImportPreview): ConflictResolution {
+  return preview.newer === 'incoming' ? 'incoming' : 'local'
+}
+
+// Copy a canvas under a fresh id so it can live next to the original
+export function copyCanvas(canvas: Canvas, name = canvas.name): Canvas {
+  return {
+    ...canvas,
+    id: generateId(),
+    name,
+  }
+}
+
+/**
+ * Work out which canvases to write and remove for an import
+ */
+export function planImport(
+  incoming: Canvas[],
+  local: Canvas[],
+  mode: ImportMode,
+  resolutions: Record<string, ConflictResolution> = {}
+): ImportPlan {
+  const localIds = new Set(local.map(canvas => canvas.id))
+
+  if (mode === 'replace') {
+    const incomingIds = new Set(incoming.map(canvas => canvas.id))
+    return {
+      upserts: incoming,
+      removals: local.filter(canvas => !incomingIds.has(canvas.id)).map(canvas => canvas.id),
+    }
+  }
+
+  if (mode === 'copy') {
+    return {
+      upserts: incoming.map(canvas =>
+        copyCanvas(canvas, localIds.has(canvas.id) ? `${canvas.name} (imported)` : canvas.name)
+      ),
+      removals: [],
+    }
+  }
+
+  const preview = buildImportPreview(incoming, local)
+  const upserts: Canvas[] = []
+
+  incoming.forEach((canvas, index) => {
+    const entry = preview.canvases[index]
+    if (entry.status === 'new') {
+      upserts.push(canvas)
+      return
+    }
+
+    const resolution = resolutions[canvas.id] || getDefaultResolution(entry)
+    if (resolution === 'incoming') {
+      upserts.push(canvas)
+    } else if (resolution === 'both') {
+      upserts.push(copyCanvas(canvas, `${canvas.name} (imported)`))
+    }
+  })
+
+  return { upserts, removals: [] }
+}
@@ -0,0 +1,170 @@
+import { get, set, del, getMany, setMany, delMany, update } from 'idb-keyval'
+import type { Canvas, CanvasSummary } from '@/types'
+import { CURRENT_SCHEMA_VERSION, migrateCanvases } from '@/lib/migrations'
+import {
+  checkStoredCanvas,
+  resolveRevision,
+  toCanvasSummary,
+  type SaveCanvasOptions,
+  type StorageAdapter,
+} from '@/lib/storage-adapter'
+
+// Storage keys
+export const STORAGE_KEYS = {
+  CANVAS_INDEX: 'canvas-index',
+  CANVAS_PREFIX: 'canvas:',
+  SCHEMA_VERSION: 'schema-version',
+  CURRENT_CANVAS: 'current-canvas',
+  // Schema v1 kept every canvas in this single array
+  LEGACY_CANVASES: 'canvases',
+} as const
+
+function canvasKey(id: string): string {
+  return `${STORAGE_KEYS.CANVAS_PREFIX}${id}`
+}
+
+// Replace the full set of canvas records and rebuild the index
+async function writeAllCanvases(canvases: Canvas[], previousIds: string[] = []): Promise<void> {
+  const nextIds = new Set(canvases.map(c => c.id))
+  const staleKeys = previousIds.filter(id => !nextIds.has(id)).map(canvasKey)
+
+  await setMany(canvases.map(c => [canvasKey(c.id), c]))
+  await set(STORAGE_KEYS.CANVAS_INDEX, canvases.map(toCanvasSummary))
+
+  if (staleKeys.length > 0) {
+    await delMany(staleKeys)
+  }
+}
+
+// Upsert and remove individual canvas records, keeping the index in step
+async function writeCanvasChanges(upserts: Canvas[], removals: string[]): Promise<void> {
+  const upsertById = new Map(upserts.map(c => [c.id, toCanvasSummary(c)]))
+  const removed = new Set(removals)
+
+  if (upserts.length > 0) {
+    await setMany(upserts.map(c => [canvasKey(c.id), c]))
+  }
+
+  await update<CanvasSummary[]>(STORAGE_KEYS.CANVAS_INDEX, (index = []) => {
+    const next = index
+      .filter(entry => !removed.has(entry.id))
+      .map(entry => upsertById.get(entry.id) || entry)
+    const known = new Set(next.map(entry => entry.id))
+    return [...next, ...Array.from(upsertById.values()).filter(entry => !known.has(entry.id))]
+  })
+
+  if (removals.length > 0) {
+    await delMany(removals.map(canvasKey))
+  }
+}
+
+async function readIndex(): Promise<CanvasSummary[]> {
+  return (await get<CanvasSummary[]>(STORAGE_KEYS.CANVAS_INDEX)) || []
+}
+
+async function readAllRecords(): Promise<unknown[]> {
+  const index = await readIndex()
+  return getMany<unknown>(index.map(entry => canvasKey(entry.id)))
+}
+
+/**
+ * Bring stored data up to the current schema version.
+ * Records are written before the version marker so an interrupted run is simply repeated.
+ */
+async function runStorageMigrations(): Promise<void> {
+  const legacyCanvases = await get<unknown[]>(STORAGE_KEYS.LEGACY_CANVASES)
+  let version = await get<number>(STORAGE_KEYS.SCHEMA_VERSION)
+
+  if (version === undefined) {
+    version = legacyCanvases ? 1 : CURRENT_SCHEMA_VERSION
+  }
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Stored data uses schema ${version}, which is newer than this app supports`)
+  }
+
+  if (version < CURRENT_SCHEMA_VERSION) {
+    const source = version < 2
+      ? legacyCanvases || []
+      : (await readAllRecords()).map(checkStoredCanvas).filter((c): c is Canvas => Boolean(c))
+    const index = await readIndex()
+    const migrated = migrateCanvases(source, version)
+    await writeAllCanvases(migrated, index.map(entry => entry.id))
+    console.log(`Migrated ${migrated.length} canvases from schema ${version} to ${CURRENT_SCHEMA_VERSION}`)
+  }
+
+  await set(STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION)
+
+  if (legacyCanvases) {
+    await del(STORAGE_KEYS.LEGACY_CANVASES)
+  }
+}
+
+let migrationPromise: Promise<void> | null = null
+
+// Run migrations once per page load before touching canvas data
+function ensureMigrated(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = runStorageMigrations().catch(error => {
+      migrationPromise = null
+      throw error
+    })
+  }
+  return migrationPromise
+}
+
+// Forget that migrations ran, e.g. after the database was cleared
+export function resetMigrationState(): void {
+  migrationPromise = null
+}
+
+/**
+ * Keeps canvases in this browser's IndexedDB
+ */
+export const indexedDbAdapter: StorageAdapter = {
+  async listCanvases() {
+    await ensureMigrated()
+    return readIndex()
+  },
+
+  async readCanvases() {
+    await ensureMigrated()
+    return readAllRecords()
+  },
+
+  async readCanvas(id: string) {
+    await ensureMigrated()
+    return (await get<unknown>(canvasKey(id))) ?? null
+  },
+
+  async writeCanvas(canvas: Canvas, options: SaveCanvasOptions) {
+    await ensureMigrated()
+
+    let saved = canvas
+    await update<unknown>(canvasKey(canvas.id), stored => {
+      saved = resolveRevision(checkStoredCanvas(stored), canvas, options)
+      return saved
+    })
+    await update<CanvasSummary[]>(STORAGE_KEYS.CANVAS_INDEX, (index = []) => {
+      const summary = toCanvasSummary(saved)
+      const exists = index.some(entry => entry.id === saved.id)
+      return exists
+        ? index.map(entry => (entry.id === saved.id ? summary : entry))
+        : [...index, summary]
+    })
+    return saved
+  },
+
+  async removeCanvas(id: string) {
+    await ensureMigrated()
+    await del(canvasKey(id))
+    await update<CanvasSummary[]>(STORAGE_KEYS.CANVAS_INDEX, (index = []) =>
+      index.filter(entry => entry.id !== id)
+    )
+  },
+
+  async writeCanvases(upserts: Canvas[], removals: string[]) {
+    await ensureMigrated()
+    await writeCanvasChanges(upserts, removals)
+  },
+}
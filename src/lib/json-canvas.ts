@@ -0,0 +1,196 @@
+import { z } from 'zod'
+import type { CanvasItems } from '@/lib/canvas-selection'
+import { createDraftLink, type LinkDraft } from '@/lib/canvas-layout'
+import { markdownLink } from '@/lib/markdown'
+import type { Canvas, Connection, Group, Link } from '@/types'
+import { generateId, isWebUrl } from '@/lib/utils'
+
+// JSON Canvas 1.0 (https://jsoncanvas.org), the format of Obsidian's .canvas files.
+// Link cards map to link nodes, or to text nodes holding a Markdown link when they
+// have a title or description of their own. Groups map to group nodes and
+// connections to edges.
+
+// Obsidian's colors for the six preset color numbers
+const PRESET_COLORS: Record<string, string> = {
+  '1': '#FB464C',
+  '2': '#E9973F',
+  '3': '#E0DE71',
+  '4': '#44CF6E',
+  '5': '#53DFDD',
+  '6': '#A882FF',
+}
+const DEFAULT_GROUP_COLOR = '#FF4F00'
+// Text nodes holding nothing but a URL are read as link nodes
+const BARE_URL_PATTERN = /^https?:\/\/\S+$/
+// Text nodes starting with a Markdown link line are link cards, as written on export
+const LINK_LINE_PATTERN = /^\[((?:\\.|[^\]\\])*)\]\((https?:\/\/[^)\s]+)\)\s*$/
+
+const nodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  color: z.string().optional(),
+  text: z.string().optional(),
+  url: z.string().optional(),
+  label: z.string().optional(),
+})
+
+const edgeSchema = z.object({
+  id: z.string().min(1),
+  fromNode: z.string(),
+  toNode: z.string(),
+  color: z.string().optional(),
+  label: z.string().optional(),
+})
+
+const jsonCanvasSchema = z.object({
+  nodes: z.array(nodeSchema).default([]),
+  edges: z.array(edgeSchema).default([]),
+})
+
+type JsonCanvasNode = z.infer<typeof nodeSchema>
+type JsonCanvasEdge = z.infer<typeof edgeSchema>
+
+export interface JsonCanvasImport extends CanvasItems {
+  // Text and file nodes, which have no counterpart on a link canvas, and links
+  // that are not web pages
+  skipped: number
+}
+
+// Titles equal to the URL are stand-ins until metadata arrives, not worth keeping
+function linkNodeContent(link: Link): Pick<JsonCanvasNode, 'type' | 'url' | 'text'> {
+  const hasTitle = Boolean(link.title) && link.title !== link.url
+  if (!hasTitle && !link.description) {
+    return { type: 'link', url: link.url }
+  }
+  const text = link.description ? `${markdownLink(link)}\n\n${link.description}` : markdownLink(link)
+  return { type: 'text', text }
+}
+
+// A text node that is a bare URL, or a Markdown link line followed by a description
+function readTextLink(text: string): LinkDraft | undefined {
+  if (BARE_URL_PATTERN.test(text)) return { url: text }
+
+  const [firstLine, ...rest] = text.split('\n')
+  const match = firstLine.trim().match(LINK_LINE_PATTERN)
+  if (!match) return undefined
+  return {
+    url: match[2],
+    title: match[1].replace(/\\(.)/g, '$1'),
+    description: rest.join('\n').trim() || undefined,
+  }
+}
+
+function toHexColor(color?: string): string | undefined {
+  if (!color) return undefined
+  return PRESET_COLORS[color] ?? color
+}
+
+/**
+ * Write a canvas as a JSON Canvas document. Groups come first so they stay
+ * beneath the cards, which JSON Canvas orders by position in the node list.
+ */
+export function toJsonCanvas(canvas: Canvas): string {
+  const groups: JsonCanvasNode[] = (canvas.groups || []).map(group => ({
+    id: group.id,
+    type: 'group',
+    label: group.name,
+    x: Math.round(group.x),
+    y: Math.round(group.y),
+    width: Math.round(group.width),
+    height: Math.round(group.height),
+    color: group.color,
+  }))
+
+  const links: JsonCanvasNode[] = [...canvas.links]
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map(link => ({
+      id: link.id,
+      ...linkNodeContent(link),
+      x: Math.round(link.x),
+      y: Math.round(link.y),
+      width: Math.round(link.width),
+      height: Math.round(link.height),
+    }))
+
+  const edges: JsonCanvasEdge[] = canvas.connections.map(conn => ({
+    id: conn.id,
+    fromNode: conn.sourceId,
+    toNode: conn.targetId,
+    color: conn.color,
+    label: conn.label,
+  }))
+
+  return JSON.stringify({ nodes: [...groups, ...links], edges }, null, 2)
+}
+
+/**
+ * Read a JSON Canvas document into links, groups and connections with fresh ids.
+ * Positions, sizes, colors and edge labels are kept. Titles and descriptions come
+ * from text nodes written as Markdown links; bare link nodes are left for the
+ * metadata refresh.
+ */
+export function parseJsonCanvas(json: string): JsonCanvasImport {
+  let document: z.infer<typeof jsonCanvasSchema>
+  try {
+    document = jsonCanvasSchema.parse(JSON.parse(json))
+  } catch (error) {
+    console.error('Invalid JSON Canvas file:', error)
+    throw new Error('This is not a JSON Canvas file')
+  }
+
+  const idMap = new Map<string, string>()
+  const links: Link[] = []
+  const groups: Group[] = []
+  let skipped = 0
+
+  document.nodes.forEach((node, index) => {
+    // Link nodes may point anywhere; only web pages become cards, like in the other importers
+    const draft = node.type === 'link' && node.url && isWebUrl(node.url.trim())
+      ? { url: node.url.trim() }
+      : node.type === 'text' && node.text ? readTextLink(node.text.trim()) : undefined
+    if (node.type === 'group') {
+      const group: Group = {
+        id: generateId(),
+        name: node.label?.trim() || 'Group',
+        color: toHexColor(node.color) || DEFAULT_GROUP_COLOR,
+        x: node.x,
+        y: node.y,
+        width: node.width,
+        height: node.height,
+      }
+      idMap.set(node.id, group.id)
+      groups.push(group)
+    } else if (draft) {
+      const link: Link = {
+        ...createDraftLink(draft, node.x, node.y),
+        width: node.width,
+        height: node.height,
+        // Later nodes are drawn on top
+        zIndex: index + 1,
+      }
+      idMap.set(node.id, link.id)
+      links.push(link)
+    } else {
+      skipped++
+    }
+  })
+
+  const connections: Connection[] = document.edges.flatMap(edge => {
+    const sourceId = idMap.get(edge.fromNode)
+    const targetId = idMap.get(edge.toNode)
+    if (!sourceId || !targetId) return []
+    return [{
+      id: generateId(),
+      sourceId,
+      targetId,
+      label: edge.label || undefined,
+      color: toHexColor(edge.color),
+    }]
+  })
+
+  return { links, groups, connections, skipped }
+}
@@ -0,0 +1,198 @@
+import { getLinkGroups, type LinkDraft, type LinkRelation, type LinkSection } from '@/lib/canvas-layout'
+import type { Canvas, Link } from '@/types'
+
+// Written between a link and its description, and accepted with other dashes when reading
+const DESCRIPTION_SEPARATOR = ' — '
+const RELATED_PREFIX = 'related to '
+
+export interface MarkdownDocument {
+  title?: string
+  sections: LinkSection[]
+  relations: LinkRelation[]
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/([\\[\]])/g, '\\$1').trim()
+}
+
+// Parentheses and spaces would end the link target early
+function escapeLinkUrl(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+export function markdownLink(link: Link): string {
+  return `[${escapeLinkText(link.title || link.url)}](${escapeLinkUrl(link.url)})`
+}
+
+// Top-to-bottom, then left-to-right, the way the canvas reads
+function byPosition(a: Link, b: Link): number {
+  return a.y - b.y || a.x - b.x
+}
+
+/**
+ * Write a canvas as a Markdown list: ungrouped links under the title, then one
+ * heading per group, with each connection as a "related to" sub-bullet
+ */
+export function toMarkdown(canvas: Canvas): string {
+  const membership = getLinkGroups(canvas)
+  const linksById = new Map(canvas.links.map(link => [link.id, link]))
+  const groupsById = new Map((canvas.groups || []).map(group => [group.id, group]))
+  const lines = [`# ${singleLine(canvas.name)}`, '']
+
+  if (canvas.description) {
+    lines.push(singleLine(canvas.description), '')
+  }
+
+  // Each connection is listed once, under its source link (or its target when it starts at a group)
+  const relatedTo = (link: Link): string[] => canvas.connections
+    .filter(conn => conn.sourceId === link.id || (conn.targetId === link.id && !linksById.has(conn.sourceId)))
+    .flatMap(conn => {
+      const otherId = conn.sourceId === link.id ? conn.targetId : conn.sourceId
+      const other = linksById.get(otherId)
+      const target = other ? markdownLink(other) : groupsById.get(otherId)?.name
+      if (!target) return []
+      const label = conn.label ? `${DESCRIPTION_SEPARATOR}${singleLine(conn.label)}` : ''
+      return [`  - ${RELATED_PREFIX}${target}${label}`]
+    })
+
+  const listLines = (links: Link[]): string[] => [...links].sort(byPosition).flatMap(link => [
+    `- ${markdownLink(link)}${link.description ? `${DESCRIPTION_SEPARATOR}${singleLine(link.description)}` : ''}`,
+    ...relatedTo(link),
+  ])
+
+  const ungrouped = canvas.links.filter(link => !membership.has(link.id))
+  if (ungrouped.length > 0) {
+    lines.push(...listLines(ungrouped), '')
+  }
+
+  for (const group of canvas.groups || []) {
+    const links = canvas.links.filter(link => membership.get(link.id)?.id === group.id)
+    lines.push(`## ${singleLine(group.name)}`, '')
+    if (links.length > 0) {
+      lines.push(...listLines(links), '')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+// Inline links and autolinks; images and anchors within the page are left out
+const LINK_PATTERN = /\[((?:\\.|[^\]\\])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|<(https?:\/\/[^>\s]+)>/g
+const IMAGE_PATTERN = /!\[(?:\\.|[^\]\\])*\]\([^)]*\)/g
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+// Heading and link text without emphasis, code or escape markers
+function plainText(markdown: string): string {
+  return markdown
+    .replace(IMAGE_PATTERN, '')
+    .replace(/\[((?:\\.|[^\]\\])*)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|__|[*`]|~~/g, '')
+    .replace(/\\(.)/g, '$1')
+    .trim()
+}
+
+function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url)
+}
+
+interface LineLink {
+  url: string
+  title?: string
+  // Whatever follows the link on the line
+  rest: string
+  // Whether the link opens the line, as in a "- [title](url) - description" item
+  leading: boolean
+}
+
+function readLinks(text: string): LineLink[] {
+  const withoutImages = text.replace(IMAGE_PATTERN, '')
+  const links: LineLink[] = []
+  for (const match of withoutImages.matchAll(LINK_PATTERN)) {
+    const url = match[2] || match[3]
+    // Badges leave a link with no text once their image is gone
+    if (!isWebUrl(url) || (match[2] && !plainText(match[1]))) continue
+    links.push({
+      url,
+      title: match[1] ? plainText(match[1]) : undefined,
+      rest: withoutImages.slice((match.index ?? 0) + match[0].length),
+      leading: !withoutImages.slice(0, match.index).trim(),
+    })
+  }
+  return links
+}
+
+// Text after a link, minus the dash or colon that introduces it
+function readDescription(rest: string): string | undefined {
+  const description = plainText(rest.replace(/^\s*[—–:-]*\s*/, ''))
+  return description || undefined
+}
+
+/**
+ * Read the links of a Markdown document, such as an awesome-list.
+ * Each heading starts a section; "related to" sub-bullets become relations.
+ */
+export function parseMarkdown(markdown: string): MarkdownDocument {
+  const document: MarkdownDocument = { sections: [], relations: [] }
+  let section: LinkSection = { links: [] }
+  document.sections.push(section)
+  let inFence = false
+  // The link a "related to" sub-bullet belongs to
+  let lastItem: { indent: number; url: string } | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence) continue
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      const name = plainText(heading[2])
+      // A leading top-level heading is the document's title rather than a section
+      if (heading[1].length === 1 && !document.title && document.sections.length === 1) {
+        document.title = name
+        continue
+      }
+      section = { name: name || 'Untitled', links: [] }
+      document.sections.push(section)
+      lastItem = null
+      continue
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN)
+    const content = item ? item[2] : line
+    const indent = item ? item[1].replace(/\t/g, '    ').length : 0
+
+    if (item && lastItem && indent > lastItem.indent && content.toLowerCase().startsWith(RELATED_PREFIX)) {
+      const [target] = readLinks(content)
+      if (target) {
+        document.relations.push({ from: lastItem.url, to: target.url, label: readDescription(target.rest) })
+      }
+      continue
+    }
+
+    const links = readLinks(content)
+    links.forEach((link, index) => {
+      const draft: LinkDraft = { url: link.url, title: link.title }
+      // Only a link leading its line is described by the rest of it
+      if (index === 0 && link.leading) {
+        draft.description = readDescription(link.rest)
+      }
+      section.links.push(draft)
+    })
+    if (item && links.length > 0) {
+      lastItem = { indent, url: links[0].url }
+    }
+  }
+
+  // Headings with nothing under them, like a table of contents, are not worth a group
+  document.sections = document.sections.filter(candidate => candidate.links.length > 0)
+  return document
+}
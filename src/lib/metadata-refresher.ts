@@ -73,23 +73,29 @@ async function fetchLinkMetadata(link: Link, retryCount = 0): Promise<{ success:
 /**
  * Update a link with new metadata
  */
-async function updateLinkWithMetadata(link: Link, metadata: LinkMetadata): Promise<void> {
+async function updateLinkWithMetadata(link: Link, metadata: LinkMetadata, keepImported = false): Promise<void> {
+  // Imported links get the URL as a stand-in title when the file had none
+  const hasImportedTitle = keepImported && Boolean(link.title) && link.title !== link.url
   const updates = {
-    title: metadata.title || link.title,
-    description: metadata.description,
+    title: hasImportedTitle ? link.title : metadata.title || link.title,
+    description: keepImported && link.description ? link.description : metadata.description,
     imageUrl: metadata.imageUrl,
     favicon: metadata.favicon,
     metadataFetchedAt: new Date().toISOString(),
     needsMetadataRefresh: false,
   }
   
-  useCanvasStore.getState().updateLink(link.id, updates)
+  useCanvasStore.getState().updateLinkMetadata(link.id, updates)
 }
 
 /**
  * Process a batch of links for metadata refreshing
  */
-async function processBatch(links: Link[], options: MetadataRefreshOptions): Promise<{ success: number; failed: number }> {
+async function processBatch(
+  links: Link[],
+  options: MetadataRefreshOptions,
+  keepImported = false
+): Promise<{ success: number; failed: number }> {
   let successCount = 0
   let failedCount = 0
   
@@ -98,11 +104,11 @@ async function processBatch(links: Link[], options: MetadataRefreshOptions): Pro
       const result = await fetchLinkMetadata(link)
       
       if (result.success && result.metadata) {
-        await updateLinkWithMetadata(link, result.metadata)
+        await updateLinkWithMetadata(link, result.metadata, keepImported)
         successCount++
       } else {
         // Update with error state but don't remove existing metadata
-        useCanvasStore.getState().updateLink(link.id, {
+        useCanvasStore.getState().updateLinkMetadata(link.id, {
           needsMetadataRefresh: false,
           metadataFetchedAt: new Date().toISOString(),
         })
@@ -173,16 +179,68 @@ export async function refreshMetadata(
   }
 }
 
+// Links added in bulk (e.g. by an import), keyed by canvas id. They are fetched
+// in batches while their canvas is open, so an import never floods /api/metadata.
+const refreshQueue = new Map<string, Set<string>>()
+let isDrainingQueue = false
+
+/**
+ * Queue links of a canvas for a background metadata refresh
+ */
+export function queueMetadataRefresh(canvasId: string, linkIds: string[]): void {
+  const queued = refreshQueue.get(canvasId) ?? new Set<string>()
+  linkIds.forEach(id => queued.add(id))
+  refreshQueue.set(canvasId, queued)
+  void drainMetadataQueue()
+}
+
+/**
+ * Work through the queued links of the open canvas, one batch at a time.
+ * Stops when another canvas is opened; the rest carry on once it is open again.
+ */
+export async function drainMetadataQueue(): Promise<void> {
+  if (isDrainingQueue) return
+  isDrainingQueue = true
+
+  try {
+    while (true) {
+      const canvas = useCanvasStore.getState().canvas
+      const queued = canvas ? refreshQueue.get(canvas.id) : undefined
+      if (!canvas || !queued) return
+
+      // Links deleted since they were queued are dropped
+      const pending = canvas.links.filter(link => queued.has(link.id))
+      const batch = pending.slice(0, BATCH_SIZE)
+      if (batch.length === 0) {
+        refreshQueue.delete(canvas.id)
+        return
+      }
+
+      // Titles and descriptions that came with the import are kept over the pages' own
+      batch.forEach(link => queued.delete(link.id))
+      await processBatch(batch, {}, true)
+
+      if (pending.length > batch.length) {
+        await new Promise(resolve => setTimeout(resolve, BATCH_DELAY))
+      }
+    }
+  } catch (error) {
+    console.error('Queued metadata refresh failed:', error)
+  } finally {
+    isDrainingQueue = false
+  }
+}
+
 /**
  * Mark a link for metadata refresh
  */
 export function markForMetadataRefresh(linkId: string): void {
-  useCanvasStore.getState().updateLink(linkId, { needsMetadataRefresh: true })
+  useCanvasStore.getState().updateLinkMetadata(linkId, { needsMetadataRefresh: true })
 }
 
 /**
  * Clear the refresh flag for a link
  */
 export function clearMetadataRefreshFlag(linkId: string): void {
-  useCanvasStore.getState().updateLink(linkId, { needsMetadataRefresh: false })
+  useCanvasStore.getState().updateLinkMetadata(linkId, { needsMetadataRefresh: false })
 }
\ No newline at end of file
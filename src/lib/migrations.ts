@@ -0,0 +1,118 @@
+import type { Canvas, ExportData } from '@/types'
+
+// Schema version history:
+//   1 - all canvases stored in a single `canvases` array, export format '1.0'
+//   2 - one record per canvas plus a summary index, `viewport` and `groups` always present
+//   3 - canvases carry a `revision` counter for optimistic concurrency
+export const CURRENT_SCHEMA_VERSION = 3
+
+// Version string written into exported backup files
+export const EXPORT_FORMAT_VERSION = '2.0'
+
+// Export format versions that predate the `schemaVersion` field
+const LEGACY_EXPORT_VERSIONS: Record<string, number> = {
+  '1.0': 1,
+}
+
+type CanvasRecord = Record<string, unknown>
+
+interface CanvasMigration {
+  // Schema version this migration upgrades canvases to
+  version: number
+  description: string
+  migrate: (canvas: CanvasRecord) => CanvasRecord
+}
+
+// Ordered list of canvas-level migrations, one per schema version bump
+const canvasMigrations: CanvasMigration[] = [
+  {
+    version: 2,
+    description: 'Fill in missing viewport and groups',
+    migrate: canvas => ({
+      ...canvas,
+      viewport: canvas.viewport ?? { x: 0, y: 0, zoom: 1 },
+      groups: canvas.groups ?? [],
+    }),
+  },
+  {
+    version: 3,
+    description: 'Start revision counters at zero',
+    migrate: canvas => ({
+      ...canvas,
+      revision: canvas.revision ?? 0,
+    }),
+  },
+]
+
+/**
+ * Upgrade a single canvas from the given schema version to the current one
+ */
+export function migrateCanvas(canvas: unknown, fromVersion: number): Canvas {
+  if (!canvas || typeof canvas !== 'object') {
+    throw new Error('Canvas data must be an object')
+  }
+
+  return canvasMigrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), canvas as CanvasRecord) as unknown as Canvas
+}
+
+/**
+ * Upgrade a list of canvases from the given schema version to the current one
+ */
+export function migrateCanvases(canvases: unknown[], fromVersion: number): Canvas[] {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Data was written by a newer version (schema ${fromVersion})`)
+  }
+
+  return canvases.map(canvas => migrateCanvas(canvas, fromVersion))
+}
+
+/**
+ * Determine which schema version the canvases in an export file were written with
+ */
+export function getExportSchemaVersion(data: Record<string, unknown>): number {
+  if (typeof data.schemaVersion === 'number') {
+    return data.schemaVersion
+  }
+
+  if (typeof data.version === 'string' && data.version in LEGACY_EXPORT_VERSIONS) {
+    return LEGACY_EXPORT_VERSIONS[data.version]
+  }
+
+  throw new Error(`Unsupported export version: ${String(data.version)}`)
+}
+
+// An export file in the current format whose canvases have not been validated yet
+export type MigratedExportData = Omit<ExportData, 'canvases'> & { canvases: unknown[] }
+
+/**
+ * Upgrade a parsed export file of any known version to the current format.
+ * Entries that are not objects are passed through for the repair step to report.
+ */
+export function migrateExportData(data: unknown): MigratedExportData {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Export data must be an object')
+  }
+
+  const record = data as Record<string, unknown>
+  if (!Array.isArray(record.canvases)) {
+    throw new Error('Export data is missing a canvases array')
+  }
+
+  const schemaVersion = getExportSchemaVersion(record)
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Data was written by a newer version (schema ${schemaVersion})`)
+  }
+
+  return {
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof record.exportedAt === 'string' ? record.exportedAt : new Date().toISOString(),
+    scope: record.scope === 'canvas' ? 'canvas' : 'all',
+    currentCanvasId: typeof record.currentCanvasId === 'string' ? record.currentCanvasId : null,
+    canvases: record.canvases.map(canvas =>
+      canvas && typeof canvas === 'object' ? migrateCanvas(canvas, schemaVersion) : canvas
+    ),
+  }
+}
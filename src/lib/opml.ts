@@ -0,0 +1,112 @@
+import { getLinkGroups, type LinkFolder } from '@/lib/canvas-layout'
+import { escapeHtml } from '@/lib/utils'
+import type { Canvas, Link } from '@/types'
+
+// OPML outlines, as exchanged by RSS readers and outliners. Outlines holding other
+// outlines are folders; outlines with a web page, feed or link URL are links.
+
+function isWebUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value)
+}
+
+// Feed readers put the site in htmlUrl and the feed in xmlUrl; link outlines use url
+function outlineUrl(outline: Element): string | undefined {
+  return ['htmlUrl', 'xmlUrl', 'url']
+    .map(name => outline.getAttribute(name)?.trim())
+    .find((value): value is string => Boolean(value && isWebUrl(value)))
+}
+
+function outlineTitle(outline: Element): string | undefined {
+  return (outline.getAttribute('title') || outline.getAttribute('text'))?.trim() || undefined
+}
+
+function parseCreated(value: string | null): string | undefined {
+  const time = value ? new Date(value).getTime() : NaN
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+function readOutlines(parent: Element, folder: LinkFolder): void {
+  for (const outline of Array.from(parent.children)) {
+    if (outline.tagName !== 'outline') continue
+
+    const url = outlineUrl(outline)
+    const hasChildren = Array.from(outline.children).some(child => child.tagName === 'outline')
+
+    if (url) {
+      folder.links.push({
+        url,
+        title: outlineTitle(outline),
+        description: outline.getAttribute('description')?.trim() || undefined,
+        addedAt: parseCreated(outline.getAttribute('created')),
+      })
+    }
+    if (hasChildren) {
+      const child: LinkFolder = { title: outlineTitle(outline) || 'Untitled', links: [], folders: [] }
+      readOutlines(outline, child)
+      folder.folders.push(child)
+    }
+  }
+}
+
+/**
+ * Read the outline tree of an OPML file
+ */
+export function parseOpml(xml: string): LinkFolder {
+  const document = new DOMParser().parseFromString(xml, 'text/xml')
+  const body = document.querySelector('opml > body')
+  if (document.querySelector('parsererror') || !body) {
+    throw new Error('This is not an OPML file')
+  }
+
+  const root: LinkFolder = {
+    title: document.querySelector('opml > head > title')?.textContent?.trim() || 'Outline',
+    links: [],
+    folders: [],
+  }
+  readOutlines(body, root)
+  return root
+}
+
+function linkOutline(link: Link, indent: string): string {
+  const title = escapeHtml(link.title || link.url)
+  const url = escapeHtml(link.url)
+  const description = link.description ? ` description="${escapeHtml(link.description)}"` : ''
+  const created = link.addedAt ? ` created="${new Date(link.addedAt).toUTCString()}"` : ''
+  return `${indent}<outline type="link" text="${title}" title="${title}" url="${url}" htmlUrl="${url}"${description}${created}/>`
+}
+
+/**
+ * Write a canvas as OPML 2.0, with one outline per group holding the links
+ * positioned inside it, and ungrouped links at the top level
+ */
+export function toOpml(canvas: Canvas): string {
+  const membership = getLinkGroups(canvas)
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeHtml(canvas.name)}</title>`,
+    `    <dateCreated>${new Date(canvas.createdAt).toUTCString()}</dateCreated>`,
+    `    <dateModified>${new Date(canvas.updatedAt).toUTCString()}</dateModified>`,
+    '  </head>',
+    '  <body>',
+  ]
+
+  canvas.links
+    .filter(link => !membership.has(link.id))
+    .forEach(link => lines.push(linkOutline(link, '    ')))
+
+  for (const group of canvas.groups || []) {
+    const links = canvas.links.filter(link => membership.get(link.id)?.id === group.id)
+    if (links.length === 0) {
+      lines.push(`    <outline text="${escapeHtml(group.name)}"/>`)
+      continue
+    }
+    lines.push(`    <outline text="${escapeHtml(group.name)}">`)
+    links.forEach(link => lines.push(linkOutline(link, '      ')))
+    lines.push('    </outline>')
+  }
+
+  lines.push('  </body>', '</opml>')
+  return lines.join('\n') + '\n'
+}
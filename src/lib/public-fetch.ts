@@ -0,0 +1,138 @@
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+
+// Server-side fetching of user-supplied URLs. Only hosts on the public internet
+// may be reached, redirects are checked hop by hop, and bodies are read with a
+// byte limit under the same timeout as the request.
+
+const MAX_REDIRECTS = 5
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // IPv4 addresses written as IPv6, which would get past the IPv4 ranges
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+export interface PublicFetchOptions {
+  maxBytes: number
+  timeoutMs: number
+  headers?: Record<string, string>
+}
+
+export interface PublicFetchResult {
+  contentType: string
+  body: Uint8Array
+}
+
+function isPublicAddress(address: string): boolean {
+  return !BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+// Every address the host resolves to must be public, or a second lookup could pick a private one
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Unsupported protocol')
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = await lookup(hostname, { all: true, verbatim: true })
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new Error(`Refusing to fetch non-public host ${hostname}`)
+  }
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  const reader = response.body?.getReader()
+  if (!reader) return new Uint8Array()
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new Error('Response too large')
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+/**
+ * Fetch a URL on the public internet, following redirects only to other public
+ * hosts. Throws on failed responses, oversized bodies and timeouts.
+ */
+export async function fetchPublicUrl(url: string, options: PublicFetchOptions): Promise<PublicFetchResult> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs)
+
+  try {
+    let current = new URL(url)
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(current)
+      const response = await fetch(current, {
+        headers: options.headers,
+        redirect: 'manual',
+        signal: controller.signal,
+      })
+
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects')
+        await response.body?.cancel()
+        current = new URL(location, current)
+        continue
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel()
+        throw new Error(`Request failed with status ${response.status}`)
+      }
+      if (Number(response.headers.get('content-length')) > options.maxBytes) {
+        await response.body?.cancel()
+        throw new Error('Response too large')
+      }
+
+      return {
+        contentType: response.headers.get('content-type') || '',
+        body: await readLimited(response, options.maxBytes),
+      }
+    }
+  } finally {
+    // Cleared only once the body has been read, so a slow body still times out
+    clearTimeout(timeoutId)
+  }
+}
@@ -0,0 +1,200 @@
+import type { LinkDraft, LinkSection } from '@/lib/canvas-layout'
+import { parseCsvRecords } from '@/lib/csv'
+
+// Exports of read-later services. Each link is grouped by its collection, folder
+// or first tag; excerpts, saved dates and any other tags go into its description.
+
+// A saved article as the services describe it, before it becomes a link draft
+interface SavedItem {
+  url: string
+  title?: string
+  excerpt?: string
+  savedAt?: string
+  // Name of the group the link goes into; links without one stay ungrouped
+  collection?: string
+  tags: string[]
+}
+
+function isWebUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value)
+}
+
+// Unix timestamps are in seconds; everything else is left to the Date parser
+function parseSavedDate(value?: string | null): string | undefined {
+  if (!value) return undefined
+  const time = /^\d+$/.test(value) ? Number(value) * 1000 : new Date(value).getTime()
+  return Number.isNaN(time) || time <= 0 ? undefined : new Date(time).toISOString()
+}
+
+function splitTags(value: string | null | undefined, separator: RegExp): string[] {
+  return (value || '').split(separator).map(tag => tag.trim()).filter(Boolean)
+}
+
+function toDraft(item: SavedItem): LinkDraft {
+  const otherTags = item.tags.filter(tag => tag !== item.collection)
+  const description = [
+    item.excerpt,
+    item.savedAt && `Saved ${item.savedAt.slice(0, 10)}`,
+    otherTags.length > 0 && `Tags: ${otherTags.join(', ')}`,
+  ].filter(Boolean).join(' · ')
+
+  return {
+    url: item.url,
+    title: item.title || undefined,
+    description: description || undefined,
+    addedAt: item.savedAt,
+  }
+}
+
+// One section per collection, in the order they first appear, after the ungrouped links
+function toSections(items: SavedItem[]): LinkSection[] {
+  const ungrouped: LinkDraft[] = []
+  const collections = new Map<string, LinkDraft[]>()
+
+  for (const item of items) {
+    if (!isWebUrl(item.url)) continue
+    if (!item.collection) {
+      ungrouped.push(toDraft(item))
+      continue
+    }
+    const links = collections.get(item.collection) ?? []
+    links.push(toDraft(item))
+    collections.set(item.collection, links)
+  }
+
+  const sections: LinkSection[] = [...collections].map(([name, links]) => ({ name, links }))
+  return ungrouped.length > 0 ? [{ links: ungrouped }, ...sections] : sections
+}
+
+function readCsv(text: string, requiredColumns: string[], service: string): Record<string, string>[] {
+  const records = parseCsvRecords(text)
+  if (records.length > 0 && !requiredColumns.every(column => column in records[0])) {
+    throw new Error(`This is not a ${service} export`)
+  }
+  return records
+}
+
+function parseHtml(html: string, service: string): Document {
+  const document = new DOMParser().parseFromString(html, 'text/html')
+  if (!document.querySelector('a[href]')) {
+    throw new Error(`This is not a ${service} export`)
+  }
+  return document
+}
+
+function isHtml(text: string): boolean {
+  return text.trimStart().startsWith('<')
+}
+
+/**
+ * Read a Pocket export, either the CSV file or the older ril_export.html.
+ * Links are grouped by their first tag, or else by their list (unread or archive).
+ */
+export function parsePocket(text: string): LinkSection[] {
+  if (isHtml(text)) {
+    const document = parseHtml(text, 'Pocket')
+    return toSections(Array.from(document.querySelectorAll('a[href]')).map(anchor => {
+      // Each list is a <ul> under an <h1> naming it
+      const list = anchor.closest('ul')?.previousElementSibling
+      const tags = splitTags(anchor.getAttribute('tags'), /,/)
+      return {
+        url: anchor.getAttribute('href')?.trim() || '',
+        title: anchor.textContent?.trim(),
+        savedAt: parseSavedDate(anchor.getAttribute('time_added')),
+        collection: tags[0] || (list?.tagName === 'H1' ? list.textContent?.trim() : undefined),
+        tags,
+      }
+    }))
+  }
+
+  return toSections(readCsv(text, ['url', 'title'], 'Pocket').map(record => {
+    const tags = splitTags(record.tags, /[|,]/)
+    const status = record.status === 'archive' ? 'Archive' : record.status === 'unread' ? 'Unread' : undefined
+    return {
+      url: record.url,
+      title: record.title,
+      savedAt: parseSavedDate(record.time_added),
+      collection: tags[0] || status,
+      tags,
+    }
+  }))
+}
+
+/**
+ * Read a Raindrop.io CSV export. Collections become groups, named by their path
+ * for nested collections; notes and excerpts become the description.
+ */
+export function parseRaindrop(text: string): LinkSection[] {
+  return toSections(readCsv(text, ['url', 'folder'], 'Raindrop.io').map(record => ({
+    url: record.url,
+    title: record.title,
+    excerpt: [record.note, record.excerpt].filter(Boolean).join(' — ') || undefined,
+    savedAt: parseSavedDate(record.created),
+    collection: record.folder.split('/').map(name => name.trim()).filter(Boolean).join(' / ') || 'Unsorted',
+    tags: splitTags(record.tags, /,/),
+  })))
+}
+
+/**
+ * Read a Pinboard export, either the JSON file or the bookmarks-style HTML file.
+ * Links are grouped by their first tag; untagged links stay ungrouped.
+ */
+export function parsePinboard(text: string): LinkSection[] {
+  if (isHtml(text)) {
+    const document = parseHtml(text, 'Pinboard')
+    return toSections(Array.from(document.querySelectorAll('a[href]')).map(anchor => {
+      // Notes follow the bookmark's <DT> in a <DD>
+      const notes = anchor.closest('dt')?.nextElementSibling
+      const tags = splitTags(anchor.getAttribute('tags'), /,/)
+      return {
+        url: anchor.getAttribute('href')?.trim() || '',
+        title: anchor.textContent?.trim(),
+        excerpt: notes?.tagName === 'DD' ? notes.textContent?.trim() : undefined,
+        savedAt: parseSavedDate(anchor.getAttribute('add_date')),
+        collection: tags[0],
+        tags,
+      }
+    }))
+  }
+
+  let posts: unknown
+  try {
+    posts = JSON.parse(text)
+  } catch (error) {
+    console.error('Invalid Pinboard export:', error)
+    throw new Error('This is not a Pinboard export')
+  }
+  if (!Array.isArray(posts)) {
+    throw new Error('This is not a Pinboard export')
+  }
+
+  const records = posts.filter((post): post is Record<string, unknown> => Boolean(post) && typeof post === 'object')
+  return toSections(records.map(post => {
+    const tags = splitTags(typeof post.tags === 'string' ? post.tags : '', /\s+/)
+    return {
+      url: typeof post.href === 'string' ? post.href.trim() : '',
+      // Pinboard calls the title the description, and the notes extended
+      title: typeof post.description === 'string' ? post.description.trim() : undefined,
+      excerpt: typeof post.extended === 'string' ? post.extended.trim() : undefined,
+      savedAt: parseSavedDate(typeof post.time === 'string' ? post.time : undefined),
+      collection: tags[0],
+      tags,
+    }
+  }))
+}
+
+/**
+ * Read an Instapaper CSV export. Folders, including Unread and Archive, become
+ * groups, and highlighted selections become the description.
+ */
+export function parseInstapaper(text: string): LinkSection[] {
+  return toSections(readCsv(text, ['url', 'folder'], 'Instapaper').map(record => ({
+    url: record.url,
+    title: record.title,
+    excerpt: record.selection || undefined,
+    savedAt: parseSavedDate(record.timestamp),
+    collection: record.folder || undefined,
+    // Newer exports list tags as a JSON array
+    tags: splitTags(record.tags?.replace(/[[\]"]/g, ''), /,/),
+  })))
+}
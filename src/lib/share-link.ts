@@ -0,0 +1,88 @@
+import type { Canvas } from '@/types'
+import { repairCanvas } from '@/lib/canvas-repair'
+import { base64UrlToBytes, bytesToBase64Url } from '@/lib/utils'
+
+// Bump when the payload layout changes; older links must keep opening
+const SHARE_FORMAT_VERSION = 1
+
+// Browsers and chat apps start truncating URLs somewhere past this length
+export const SHARE_URL_WARNING_LENGTH = 8000
+
+interface SharePayload {
+  v: number
+  canvas: Omit<Canvas, 'revision' | 'encryption'>
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+/**
+ * Compress a canvas into a string that fits in a URL fragment
+ */
+export async function encodeShareFragment(canvas: Canvas): Promise<string> {
+  // A link would carry the decrypted content in plain text
+  if (canvas.encryption) {
+    throw new Error('Encrypted canvases cannot be shared as links')
+  }
+
+  // Fields are listed one by one so nothing new ends up in links by accident.
+  // Revisions only mean something to the storage the canvas came from.
+  const { id, name, description, links, connections, groups, viewport, createdAt, updatedAt } = canvas
+  const payload: SharePayload = {
+    v: SHARE_FORMAT_VERSION,
+    canvas: { id, name, description, links, connections, groups, viewport, createdAt, updatedAt },
+  }
+  const json = new TextEncoder().encode(JSON.stringify(payload))
+  return bytesToBase64Url(await transform(json, new CompressionStream('deflate-raw')))
+}
+
+/**
+ * Decode a share fragment back into a validated canvas
+ */
+export async function decodeShareFragment(fragment: string): Promise<Canvas> {
+  let payload: SharePayload
+  try {
+    const json = await transform(base64UrlToBytes(fragment), new DecompressionStream('deflate-raw'))
+    payload = JSON.parse(new TextDecoder().decode(json))
+  } catch (error) {
+    console.error('Error decoding share link:', error)
+    throw new Error('This share link is damaged or incomplete')
+  }
+
+  // Valid JSON is not necessarily a payload, e.g. a hand-made fragment holding null
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('This share link is damaged or incomplete')
+  }
+  if (payload.v > SHARE_FORMAT_VERSION) {
+    throw new Error('This share link was made by a newer version of the app')
+  }
+
+  const { canvas, errors } = repairCanvas(payload.canvas)
+  if (!canvas) {
+    console.error('Invalid shared canvas:', errors)
+    throw new Error('This share link does not contain a valid canvas')
+  }
+  return canvas
+}
+
+export interface ShareUrls {
+  // Read-only viewer
+  viewUrl: string
+  // Chrome-less page for iframes, showing the same snapshot
+  embedUrl: string
+}
+
+/**
+ * Full URLs of the read-only viewer and the embed page for a canvas. Both carry
+ * the canvas in their fragment: a frame on another site gets its own, empty
+ * browser storage, so an embed that had to find the canvas there would fail.
+ */
+export async function createShareUrls(canvas: Canvas): Promise<ShareUrls> {
+  const fragment = await encodeShareFragment(canvas)
+  return {
+    viewUrl: `${window.location.origin}/view#${fragment}`,
+    embedUrl: `${window.location.origin}/embed/${encodeURIComponent(canvas.id)}#${fragment}`,
+  }
+}
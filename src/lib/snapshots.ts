@@ -0,0 +1,138 @@
+import { get, set, update, del } from 'idb-keyval'
+import type { Canvas, CanvasEncryption, CanvasSnapshot } from '@/types'
+import { generateId } from '@/lib/utils'
+import { isCanvasSealed, openCanvas, sealCanvas } from '@/lib/encryption'
+
+const SNAPSHOTS_PREFIX = 'snapshots:'
+
+// Automatic snapshot policy
+const AUTO_SNAPSHOT_INTERVAL = 10 * 60 * 1000 // At most one every 10 minutes
+const AUTO_SNAPSHOT_LIMIT = 20
+const AUTO_SNAPSHOT_MAX_AGE_DAYS = 30
+
+function snapshotsKey(canvasId: string): string {
+  return `${SNAPSHOTS_PREFIX}${canvasId}`
+}
+
+// Content that matters when deciding whether anything changed
+function contentFingerprint(canvas: Canvas): string {
+  return JSON.stringify([canvas.name, canvas.description, canvas.links, canvas.connections, canvas.groups || []])
+}
+
+/**
+ * Drop automatic snapshots beyond the retention limits. Manual snapshots are always kept.
+ */
+export function pruneAutoSnapshots(snapshots: CanvasSnapshot[], now = Date.now()): CanvasSnapshot[] {
+  const maxAge = AUTO_SNAPSHOT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  let autoCount = 0
+
+  return snapshots.filter(snapshot => {
+    if (snapshot.kind === 'manual') return true
+    if (now - new Date(snapshot.createdAt).getTime() > maxAge) return false
+    autoCount++
+    return autoCount <= AUTO_SNAPSHOT_LIMIT
+  })
+}
+
+// Decrypt a snapshot of an encrypted canvas where possible; it stays sealed otherwise
+async function openSnapshot(snapshot: CanvasSnapshot): Promise<CanvasSnapshot> {
+  try {
+    return { ...snapshot, canvas: await openCanvas(snapshot.canvas) }
+  } catch {
+    // Taken under an earlier passphrase
+    return snapshot
+  }
+}
+
+// List snapshots for a canvas, newest first
+export async function listSnapshots(canvasId: string): Promise<CanvasSnapshot[]> {
+  try {
+    const snapshots = (await get<CanvasSnapshot[]>(snapshotsKey(canvasId))) || []
+    return await Promise.all(snapshots.map(openSnapshot))
+  } catch (error) {
+    console.error('Error loading snapshots:', error)
+    return []
+  }
+}
+
+// Save a copy of the canvas under a name
+export async function createSnapshot(
+  canvas: Canvas,
+  name: string,
+  kind: CanvasSnapshot['kind'] = 'manual'
+): Promise<CanvasSnapshot> {
+  const snapshot: CanvasSnapshot = {
+    id: generateId(),
+    canvasId: canvas.id,
+    name,
+    kind,
+    createdAt: new Date().toISOString(),
+    canvas: await sealCanvas(structuredClone(canvas)),
+  }
+
+  try {
+    await update<CanvasSnapshot[]>(snapshotsKey(canvas.id), (snapshots = []) =>
+      pruneAutoSnapshots([snapshot, ...snapshots])
+    )
+    return snapshot
+  } catch (error) {
+    console.error('Error saving snapshot:', error)
+    throw error
+  }
+}
+
+// Delete a single snapshot
+export async function deleteSnapshot(canvasId: string, snapshotId: string): Promise<void> {
+  try {
+    await update<CanvasSnapshot[]>(snapshotsKey(canvasId), (snapshots = []) =>
+      snapshots.filter(snapshot => snapshot.id !== snapshotId)
+    )
+  } catch (error) {
+    console.error('Error deleting snapshot:', error)
+    throw error
+  }
+}
+
+/**
+ * Re-encrypt the snapshots of a canvas after its passphrase protection was
+ * added, changed or removed. Snapshots that cannot be decrypted are left as they are.
+ */
+export async function reencryptSnapshots(canvasId: string, encryption?: CanvasEncryption): Promise<void> {
+  try {
+    const snapshots = await listSnapshots(canvasId)
+    const reencrypted = await Promise.all(
+      snapshots.map(async snapshot => {
+        if (isCanvasSealed(snapshot.canvas)) return snapshot
+        return { ...snapshot, canvas: await sealCanvas({ ...snapshot.canvas, encryption }) }
+      })
+    )
+    await set(snapshotsKey(canvasId), reencrypted)
+  } catch (error) {
+    console.error('Error re-encrypting snapshots:', error)
+    throw error
+  }
+}
+
+// Delete every snapshot of a canvas
+export async function deleteSnapshots(canvasId: string): Promise<void> {
+  await del(snapshotsKey(canvasId))
+}
+
+/**
+ * Take an automatic snapshot if the last one is old enough and the content has changed
+ */
+export async function maybeCreateAutoSnapshot(canvas: Canvas): Promise<CanvasSnapshot | null> {
+  const snapshots = await listSnapshots(canvas.id)
+  const lastAuto = snapshots.find(snapshot => snapshot.kind === 'auto')
+
+  if (lastAuto && Date.now() - new Date(lastAuto.createdAt).getTime() < AUTO_SNAPSHOT_INTERVAL) {
+    return null
+  }
+
+  const latest = snapshots[0]
+  if (latest && contentFingerprint(latest.canvas) === contentFingerprint(canvas)) {
+    return null
+  }
+
+  return createSnapshot(canvas, `Auto-save ${new Date().toLocaleString()}`, 'auto')
+}
@@ -0,0 +1,172 @@
+import { renderCanvasSvg } from '@/lib/canvas-image'
+import { escapeHtml } from '@/lib/utils'
+import type { Canvas } from '@/types'
+
+// A single HTML page for viewing a canvas without the app: the canvas is drawn
+// as an inline SVG, with a small script for panning and zooming around it.
+
+const GRID_SIZE = 40
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  html, body { margin: 0; height: 100%; overflow: hidden; }
+  body {
+    background-color: #F0F0F0;
+    background-image:
+      linear-gradient(to right, rgba(204, 204, 204, 0.5) 1px, transparent 1px),
+      linear-gradient(to bottom, rgba(204, 204, 204, 0.5) 1px, transparent 1px);
+    color: #111111;
+    font-family: 'Space Grotesk', system-ui, sans-serif;
+  }
+  #viewport { position: fixed; inset: 0; cursor: grab; touch-action: none; user-select: none; }
+  #viewport.dragging { cursor: grabbing; }
+  #viewport > svg { position: absolute; top: 0; left: 0; transform-origin: 0 0; overflow: visible; }
+  .panel {
+    position: fixed; display: flex; align-items: center; gap: 8px; padding: 6px 10px;
+    background: #FFFFFF; border: 2px solid #CCCCCC;
+    font-family: 'JetBrains Mono', ui-monospace, monospace; font-size: 11px;
+    text-transform: uppercase; letter-spacing: 0.08em;
+  }
+  header.panel { top: 16px; left: 16px; max-width: calc(100% - 32px); }
+  header h1 { margin: 0; font-size: 11px; font-weight: 700; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  header span { color: #666666; white-space: nowrap; }
+  nav.panel { bottom: 16px; right: 16px; padding: 4px; gap: 4px; }
+  nav button {
+    min-width: 32px; height: 28px; padding: 0 8px; border: 2px solid #CCCCCC; background: #FFFFFF;
+    font: inherit; cursor: pointer;
+  }
+  nav button:hover { border-color: #FF4F00; color: #FF4F00; }
+`
+
+// Plain ES5 so the page opens in any browser. Dragging pans, the wheel zooms
+// around the pointer, and a drag that ends on a card does not open its link.
+const VIEWER_SCRIPT = `
+(function () {
+  var GRID_SIZE = ${GRID_SIZE};
+  var MIN_ZOOM = 0.1;
+  var MAX_ZOOM = 4;
+  var viewport = document.getElementById('viewport');
+  var scene = viewport.querySelector('svg');
+  var box = scene.viewBox.baseVal;
+  var view = { x: 0, y: 0, zoom: 1 };
+  var drag = null;
+  var moved = false;
+
+  function apply() {
+    scene.style.transform = 'translate(' + view.x + 'px, ' + view.y + 'px) scale(' + view.zoom + ')';
+    var size = GRID_SIZE * view.zoom;
+    document.body.style.backgroundSize = size + 'px ' + size + 'px';
+    document.body.style.backgroundPosition = (view.x - box.x * view.zoom) + 'px ' + (view.y - box.y * view.zoom) + 'px';
+  }
+
+  function fit() {
+    var zoom = Math.min(window.innerWidth / box.width, window.innerHeight / box.height, 1);
+    view.zoom = Math.max(zoom, MIN_ZOOM);
+    view.x = (window.innerWidth - box.width * view.zoom) / 2;
+    view.y = (window.innerHeight - box.height * view.zoom) / 2;
+    apply();
+  }
+
+  function zoomAt(factor, x, y) {
+    var zoom = Math.min(Math.max(view.zoom * factor, MIN_ZOOM), MAX_ZOOM);
+    view.x = x - (x - view.x) * zoom / view.zoom;
+    view.y = y - (y - view.y) * zoom / view.zoom;
+    view.zoom = zoom;
+    apply();
+  }
+
+  viewport.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    zoomAt(Math.exp(-event.deltaY * 0.002), event.clientX, event.clientY);
+  }, { passive: false });
+
+  viewport.addEventListener('pointerdown', function (event) {
+    if (event.button !== 0) return;
+    drag = { x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y };
+    moved = false;
+  });
+  window.addEventListener('pointermove', function (event) {
+    if (!drag) return;
+    var dx = event.clientX - drag.x;
+    var dy = event.clientY - drag.y;
+    if (!moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    moved = true;
+    viewport.classList.add('dragging');
+    view.x = drag.viewX + dx;
+    view.y = drag.viewY + dy;
+    apply();
+  });
+  window.addEventListener('pointerup', function () {
+    drag = null;
+    viewport.classList.remove('dragging');
+  });
+  viewport.addEventListener('click', function (event) {
+    if (moved) event.preventDefault();
+  }, true);
+
+  document.querySelector('nav').addEventListener('click', function (event) {
+    var action = event.target.getAttribute('data-action');
+    if (action === 'fit') fit();
+    if (action === 'zoom-in') zoomAt(1.25, window.innerWidth / 2, window.innerHeight / 2);
+    if (action === 'zoom-out') zoomAt(0.8, window.innerWidth / 2, window.innerHeight / 2);
+  });
+  window.addEventListener('keydown', function (event) {
+    if (event.key === '0') fit();
+    if (event.key === '+' || event.key === '=') zoomAt(1.25, window.innerWidth / 2, window.innerHeight / 2);
+    if (event.key === '-') zoomAt(0.8, window.innerWidth / 2, window.innerHeight / 2);
+  });
+
+  fit();
+})();
+`
+
+// Hash of the viewer script for the page's Content-Security-Policy
+async function scriptHash(script: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(script)))
+  return `'sha256-${btoa(String.fromCharCode(...digest))}'`
+}
+
+// JSON is safe inside a script element once it cannot close the element
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+/**
+ * Write a canvas as a standalone web page that draws its link cards, groups and
+ * connections with clickable links. The canvas data is embedded as JSON, so the
+ * page also keeps everything needed to rebuild the canvas. Only the page's own
+ * viewer script is allowed to run.
+ */
+export async function toStaticHtml(canvas: Canvas, favicons?: Map<string, string>): Promise<string> {
+  const items = { links: canvas.links, groups: canvas.groups || [], connections: canvas.connections }
+  const svg = renderCanvasSvg(items, { background: 'transparent', favicons })
+  const data = { name: canvas.name, exportedAt: new Date().toISOString(), ...items }
+  const title = escapeHtml(canvas.name)
+  // Only the viewer may run: no other scripts, and no javascript: links either,
+  // whatever ends up in the canvas data. Favicons are embedded as data URLs.
+  const policy = `default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src ${await scriptHash(VIEWER_SCRIPT)}`
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<meta http-equiv="Content-Security-Policy" content="${policy}">`,
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<div id="viewport">${svg}</div>`,
+    `<header class="panel"><h1>${title}</h1><span>${canvas.links.length} links</span></header>`,
+    '<nav class="panel">',
+    '<button type="button" data-action="zoom-out" title="Zoom out (-)">−</button>',
+    '<button type="button" data-action="zoom-in" title="Zoom in (+)">+</button>',
+    '<button type="button" data-action="fit" title="Fit to screen (0)">Fit</button>',
+    '</nav>',
+    `<script type="application/json" id="canvas-data">${scriptJson(data)}</script>`,
+    `<script>${VIEWER_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n') + '\n'
+}
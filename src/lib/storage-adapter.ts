@@ -0,0 +1,74 @@
+import type { Canvas, CanvasSummary } from '@/types'
+import { repairCanvas } from '@/lib/canvas-repair'
+
+// Which backend holds canvases in this deployment
+export type StorageBackend = 'indexeddb' | 'server'
+
+export const STORAGE_BACKEND: StorageBackend =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'server' ? 'server' : 'indexeddb'
+
+// Thrown when a save is based on an older revision than the one in storage
+export class RevisionConflictError extends Error {
+  constructor(public readonly stored: Canvas) {
+    super(`Canvas "${stored.name}" was changed elsewhere (now at revision ${stored.revision})`)
+    this.name = 'RevisionConflictError'
+  }
+}
+
+export interface SaveCanvasOptions {
+  // Write even if the stored revision has moved on
+  force?: boolean
+}
+
+/**
+ * Where canvas records live. Adapters return stored records as-is;
+ * storage.ts validates and repairs them before they reach the app.
+ */
+export interface StorageAdapter {
+  listCanvases(): Promise<CanvasSummary[]>
+  readCanvases(): Promise<unknown[]>
+  readCanvas(id: string): Promise<unknown | null>
+  // Must apply the same revision check as resolveRevision
+  writeCanvas(canvas: Canvas, options: SaveCanvasOptions): Promise<Canvas>
+  removeCanvas(id: string): Promise<void>
+  // Bulk upsert and delete without revision checks, used by imports
+  writeCanvases(upserts: Canvas[], removals: string[]): Promise<void>
+}
+
+// Build the index entry for a canvas
+export function toCanvasSummary(canvas: Canvas): CanvasSummary {
+  return {
+    id: canvas.id,
+    name: canvas.name,
+    description: canvas.description,
+    linkCount: canvas.links.length,
+    connectionCount: canvas.connections.length,
+    encrypted: Boolean(canvas.encryption),
+    createdAt: canvas.createdAt,
+    updatedAt: canvas.updatedAt,
+  }
+}
+
+/**
+ * The record to store for a save of `canvas` on top of `stored`.
+ * The canvas revision must match the stored one unless forced; new canvases keep theirs.
+ */
+export function resolveRevision(stored: Canvas | null, canvas: Canvas, options: SaveCanvasOptions): Canvas {
+  if (stored && stored.revision !== canvas.revision && !options.force) {
+    throw new RevisionConflictError(stored)
+  }
+  return { ...canvas, revision: stored ? stored.revision + 1 : canvas.revision }
+}
+
+// Validate a stored record before handing it to the app
+export function checkStoredCanvas(record: unknown): Canvas | null {
+  if (!record) return null
+
+  const { canvas, fixes, errors } = repairCanvas(record)
+  if (errors.length > 0) {
+    console.error('Stored canvas is invalid and was skipped:', errors)
+  } else if (fixes.length > 0) {
+    console.warn(`Repaired stored canvas "${canvas?.name}":`, fixes)
+  }
+  return canvas
+}
@@ -1,61 +1,116 @@
 import { get, set, clear } from 'idb-keyval'
-import type { Canvas } from '@/types'
+import type { Canvas, CanvasSummary, ExportData } from '@/types'
+import {
+  CURRENT_SCHEMA_VERSION,
+  EXPORT_FORMAT_VERSION,
+  migrateExportData,
+  type MigratedExportData,
+} from '@/lib/migrations'
+import {
+  buildImportPreview,
+  planImport,
+  type ConflictResolution,
+  type ImportMode,
+  type ImportPreview,
+} from '@/lib/import-merge'
+import { repairCanvases, type CanvasRepairReport } from '@/lib/canvas-repair'
+import { broadcastTabMessage } from '@/lib/tab-sync'
+import { deleteSnapshots } from '@/lib/snapshots'
+import { toBookmarksHtml } from '@/lib/bookmarks-html'
+import { toMarkdown } from '@/lib/markdown'
+import { toJsonCanvas } from '@/lib/json-canvas'
+import { toOpml } from '@/lib/opml'
+import { toDot, toGraphml, toMermaid } from '@/lib/graph-export'
+import { loadFavicons } from '@/lib/canvas-image'
+import { toStaticHtml } from '@/lib/static-html'
+import {
+  checkStoredCanvas,
+  RevisionConflictError,
+  STORAGE_BACKEND,
+  type SaveCanvasOptions,
+  type StorageAdapter,
+} from '@/lib/storage-adapter'
+import { indexedDbAdapter, resetMigrationState, STORAGE_KEYS } from '@/lib/indexeddb-adapter'
+import { httpAdapter } from '@/lib/http-adapter'
+import {
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  openCanvas,
+  sealCanvas,
+  WrongPassphraseError,
+  type EncryptedPayload,
+} from '@/lib/encryption'
 
-// Storage keys
-export const STORAGE_KEYS = {
-  CANVASES: 'canvases',
-  CURRENT_CANVAS: 'current-canvas',
-} as const
+export { RevisionConflictError, toCanvasSummary, type SaveCanvasOptions } from '@/lib/storage-adapter'
+export { STORAGE_KEYS } from '@/lib/indexeddb-adapter'
+
+// Canvases live in IndexedDB unless the deployment opts into the server backend.
+// Snapshots, the trash and the current canvas id always stay in the browser.
+const adapter: StorageAdapter = STORAGE_BACKEND === 'server' ? httpAdapter : indexedDbAdapter
+
+async function readAllCanvases(): Promise<Canvas[]> {
+  const records = await adapter.readCanvases()
+  return records.map(checkStoredCanvas).filter((c): c is Canvas => Boolean(c))
+}
+
+// Get the summary index of all canvases
+export async function getCanvasIndex(): Promise<CanvasSummary[]> {
+  try {
+    return await adapter.listCanvases()
+  } catch (error) {
+    console.error('Error loading canvas index:', error)
+    return []
+  }
+}
 
 // Get all canvases
 export async function getCanvases(): Promise<Canvas[]> {
   try {
-    const canvases = await get<Canvas[]>(STORAGE_KEYS.CANVASES)
-    return canvases || []
+    return await readAllCanvases()
   } catch (error) {
     console.error('Error loading canvases:', error)
     return []
   }
 }
 
-// Get single canvas by ID
+// Get single canvas by ID. Encrypted canvases come back sealed unless unlocked this session.
 export async function getCanvas(id: string): Promise<Canvas | null> {
   try {
-    const canvases = await getCanvases()
-    return canvases.find(c => c.id === id) || null
+    const canvas = checkStoredCanvas(await adapter.readCanvas(id))
+    return canvas && (await openCanvas(canvas))
   } catch (error) {
     console.error('Error loading canvas:', error)
     return null
   }
 }
 
-// Save canvas (create or update)
-export async function saveCanvas(canvas: Canvas): Promise<void> {
+// Save canvas (create or update). The canvas revision must match the stored one
+// unless forced; resolves with the canvas as stored, at its new revision.
+// Encrypted canvases are written sealed and must be unlocked.
+export async function saveCanvas(canvas: Canvas, options: SaveCanvasOptions = {}): Promise<Canvas> {
   try {
-    const canvases = await getCanvases()
-    const index = canvases.findIndex(c => c.id === canvas.id)
-
     canvas.updatedAt = new Date().toISOString()
 
-    if (index >= 0) {
-      canvases[index] = canvas
-    } else {
-      canvases.push(canvas)
-    }
-
-    await set(STORAGE_KEYS.CANVASES, canvases)
+    const saved = await adapter.writeCanvas(await sealCanvas(canvas), options)
+    broadcastTabMessage({ type: 'canvas-list-changed' })
+    return await openCanvas(saved)
   } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      throw new RevisionConflictError(await openCanvas(error.stored))
+    }
     console.error('Error saving canvas:', error)
     throw error
   }
 }
 
-// Delete canvas
-export async function deleteCanvas(id: string): Promise<void> {
+// Delete canvas. Snapshots can be kept for a canvas that may be restored from the trash.
+export async function deleteCanvas(id: string, { keepSnapshots = false } = {}): Promise<void> {
   try {
-    const canvases = await getCanvases()
-    const filtered = canvases.filter(c => c.id !== id)
-    await set(STORAGE_KEYS.CANVASES, filtered)
+    await adapter.removeCanvas(id)
+    if (!keepSnapshots) {
+      await deleteSnapshots(id)
+    }
+    broadcastTabMessage({ type: 'canvas-list-changed' })
   } catch (error) {
     console.error('Error deleting canvas:', error)
     throw error
@@ -83,14 +138,16 @@ export async function setCurrentCanvasId(id: string): Promise<void> {
   }
 }
 
-// Export all data
+// Export all data. Encrypted canvases stay encrypted in the file.
 export async function exportData(): Promise<string> {
   const canvases = await getCanvases()
   const currentCanvasId = await getCurrentCanvasId()
 
-  const exportData = {
-    version: '1.0',
+  const exportData: ExportData = {
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     exportedAt: new Date().toISOString(),
+    scope: 'all',
     currentCanvasId,
     canvases,
   }
@@ -98,28 +155,171 @@ export async function exportData(): Promise<string> {
   return JSON.stringify(exportData, null, 2)
 }
 
-// Import data
-export async function importData(jsonString: string): Promise<void> {
+// Export one canvas, e.g. to send a single board to someone
+export async function exportCanvas(canvas: Canvas): Promise<string> {
+  const exportData: ExportData = {
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    scope: 'canvas',
+    currentCanvasId: null,
+    canvases: [await sealCanvas(canvas)],
+  }
+
+  return JSON.stringify(exportData, null, 2)
+}
+
+// Export a canvas as a browser bookmarks file (bookmarks.html)
+export function exportBookmarks(canvas: Canvas): string {
+  return toBookmarksHtml(canvas)
+}
+
+// Export a canvas as a Markdown link list for READMEs and wikis
+export function exportMarkdown(canvas: Canvas): string {
+  return toMarkdown(canvas)
+}
+
+// Export a canvas as a JSON Canvas file that Obsidian can open
+export function exportJsonCanvas(canvas: Canvas): string {
+  return toJsonCanvas(canvas)
+}
+
+// Export a canvas as OPML for RSS readers and outliners
+export function exportOpml(canvas: Canvas): string {
+  return toOpml(canvas)
+}
+
+// Export the connection graph of a canvas as a Mermaid flowchart, for docs
+export function exportMermaid(canvas: Canvas): string {
+  return toMermaid(canvas)
+}
+
+// Export the connection graph of a canvas as Graphviz DOT
+export function exportDot(canvas: Canvas): string {
+  return toDot(canvas)
+}
+
+// Export the connection graph of a canvas as GraphML, for graph analysis tools
+export function exportGraphml(canvas: Canvas): string {
+  return toGraphml(canvas)
+}
+
+// Export a canvas as a standalone web page, with favicons embedded so it works offline
+export async function exportStaticHtml(canvas: Canvas): Promise<string> {
+  return toStaticHtml(canvas, await loadFavicons(canvas.links))
+}
+
+// Marks a backup whose contents are encrypted with a password
+const ENCRYPTED_BACKUP_FORMAT = 'link-canvas-encrypted-backup'
+
+interface EncryptedBackup extends EncryptedPayload {
+  format: typeof ENCRYPTED_BACKUP_FORMAT
+}
+
+// Export all data as a password-protected backup
+export async function exportEncryptedData(password: string): Promise<string> {
+  const backup: EncryptedBackup = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    ...(await encryptWithPassphrase(await exportData(), password)),
+  }
+  return JSON.stringify(backup, null, 2)
+}
+
+function parseEncryptedBackup(jsonString: string): EncryptedBackup | null {
   try {
-    const data = JSON.parse(jsonString)
+    const parsed = JSON.parse(jsonString)
+    return parsed?.format === ENCRYPTED_BACKUP_FORMAT ? parsed : null
+  } catch {
+    return null
+  }
+}
 
-    if (data.canvases && Array.isArray(data.canvases)) {
-      await set(STORAGE_KEYS.CANVASES, data.canvases)
-    }
+// Whether an import file needs a password before it can be read
+export function isEncryptedBackup(jsonString: string): boolean {
+  return parseEncryptedBackup(jsonString) !== null
+}
 
-    if (data.currentCanvasId) {
-      await setCurrentCanvasId(data.currentCanvasId)
+export interface ImportOptions {
+  mode: ImportMode
+  // Per-canvas choices for ids that exist locally (merge mode only)
+  resolutions?: Record<string, ConflictResolution>
+  // Required for password-protected backups
+  password?: string
+}
+
+// Parse, decrypt, upgrade and validate an import file
+async function parseImportFile(
+  jsonString: string,
+  password?: string
+): Promise<{ data: ExportData; repairs: CanvasRepairReport[] }> {
+  const backup = parseEncryptedBackup(jsonString)
+  if (backup) {
+    if (!password) {
+      throw new Error('This backup is password-protected')
+    }
+    try {
+      jsonString = await decryptWithPassphrase(backup, password)
+    } catch (error) {
+      if (error instanceof WrongPassphraseError) {
+        throw new Error('Wrong password for this backup')
+      }
+      throw error
     }
+  }
+
+  let data: MigratedExportData
+  try {
+    data = migrateExportData(JSON.parse(jsonString))
   } catch (error) {
     console.error('Error importing data:', error)
     throw new Error('Invalid import file format')
   }
+
+  const { canvases, reports } = repairCanvases(data.canvases)
+  return { data: { ...data, canvases }, repairs: reports }
+}
+
+// Describe what an import would change without writing anything
+export async function previewImport(jsonString: string, password?: string): Promise<ImportPreview> {
+  const { data, repairs } = await parseImportFile(jsonString, password)
+  const local = await getCanvases()
+  return buildImportPreview(data.canvases, local, repairs, data.scope)
+}
+
+// Import data, resolving with the canvases that were written
+export async function importData(
+  jsonString: string,
+  options: ImportOptions = { mode: 'replace' }
+): Promise<Canvas[]> {
+  const { data } = await parseImportFile(jsonString, options.password)
+  if (data.scope === 'canvas' && options.mode === 'replace') {
+    throw new Error('A single-canvas file cannot replace all canvases')
+  }
+
+  const local = await readAllCanvases()
+  const { upserts, removals } = planImport(data.canvases, local, options.mode, options.resolutions)
+
+  // Move replaced canvases past their local revision so open editors notice the change
+  const localRevisions = new Map(local.map(c => [c.id, c.revision]))
+  const revised = upserts.map(c => {
+    const localRevision = localRevisions.get(c.id)
+    return localRevision === undefined ? c : { ...c, revision: Math.max(c.revision, localRevision) + 1 }
+  })
+  await adapter.writeCanvases(revised, removals)
+  broadcastTabMessage({ type: 'canvas-list-changed' })
+
+  // Only a full replace adopts the file's notion of the current canvas
+  if (options.mode === 'replace' && data.currentCanvasId) {
+    await setCurrentCanvasId(data.currentCanvasId)
+  }
+  return revised
 }
 
 // Clear all data
 export async function clearAllData(): Promise<void> {
   try {
     await clear()
+    resetMigrationState()
   } catch (error) {
     console.error('Error clearing data:', error)
     throw error
@@ -0,0 +1,67 @@
+import type { Canvas } from '@/types'
+import type { CanvasMutation } from '@/lib/canvas-mutations'
+import { generateId } from '@/lib/utils'
+
+const CHANNEL_NAME = 'link-canvas-sync'
+
+// Identifies this tab so it can ignore its own messages
+export const TAB_ID = generateId()
+
+export type TabSyncMessage =
+  // A local store mutation, to be replayed by other tabs showing the same canvas
+  | { type: 'mutation'; canvasId: string; mutation: CanvasMutation }
+  // A tab just opened a canvas and asks for the freshest in-memory copy
+  | { type: 'request-state'; canvasId: string }
+  | { type: 'state'; canvasId: string; canvas: Canvas; targetId: string }
+  // A tab saved the canvas; others adopt it as their base revision
+  | { type: 'canvas-saved'; canvasId: string; canvas: Canvas }
+  // Canvases were created, renamed or deleted
+  | { type: 'canvas-list-changed' }
+  // Items were moved to, restored from or purged from the trash
+  | { type: 'trash-changed' }
+
+type Envelope = TabSyncMessage & { senderId: string }
+
+let channel: BroadcastChannel | null = null
+const listeners = new Set<(message: TabSyncMessage, senderId: string) => void>()
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null
+  }
+
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<Envelope>) => {
+      const { senderId, ...message } = event.data
+      if (senderId === TAB_ID) return
+      listeners.forEach(listener => listener(message as TabSyncMessage, senderId))
+    }
+  }
+
+  return channel
+}
+
+/**
+ * Send a message to every other open tab
+ */
+export function broadcastTabMessage(message: TabSyncMessage): void {
+  try {
+    getChannel()?.postMessage({ ...message, senderId: TAB_ID })
+  } catch (error) {
+    console.error('Error broadcasting to other tabs:', error)
+  }
+}
+
+/**
+ * Listen for messages from other tabs. Returns an unsubscribe function.
+ */
+export function subscribeToTabMessages(
+  listener: (message: TabSyncMessage, senderId: string) => void
+): () => void {
+  getChannel()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
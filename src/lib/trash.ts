@@ -0,0 +1,240 @@
+import { get, set, update } from 'idb-keyval'
+import type {
+  Canvas,
+  CanvasEncryption,
+  CanvasTrashItem,
+  GroupTrashItem,
+  LinkTrashItem,
+  SealedTrashItem,
+  TrashItem,
+} from '@/types'
+import { applyCanvasMutation, type CanvasMutation } from '@/lib/canvas-mutations'
+import { copyCanvas } from '@/lib/import-merge'
+import { deleteCanvas, getCanvas, saveCanvas } from '@/lib/storage'
+import { deleteSnapshots } from '@/lib/snapshots'
+import { broadcastTabMessage } from '@/lib/tab-sync'
+import { generateId } from '@/lib/utils'
+import { isCanvasLocked, openCanvas, openValue, sealCanvas, sealValue } from '@/lib/encryption'
+
+const TRASH_KEY = 'trash'
+const RETENTION_KEY = 'trash-retention-days'
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+type NewNodeTrashItem = Omit<LinkTrashItem, 'id' | 'deletedAt'> | Omit<GroupTrashItem, 'id' | 'deletedAt'>
+type NewTrashItem = Omit<CanvasTrashItem, 'id' | 'deletedAt'> | NewNodeTrashItem
+
+async function writeTrash(updater: (items: TrashItem[]) => TrashItem[]): Promise<void> {
+  await update<TrashItem[]>(TRASH_KEY, (items = []) => updater(items))
+  broadcastTabMessage({ type: 'trash-changed' })
+}
+
+// Encrypt a link or group from an encrypted canvas with that canvas's key
+async function sealTrashItem(
+  item: LinkTrashItem | GroupTrashItem,
+  encryption: CanvasEncryption
+): Promise<SealedTrashItem> {
+  const { id, deletedAt, ...entry } = item
+  return {
+    kind: 'sealed',
+    id,
+    deletedAt,
+    canvasId: item.canvasId,
+    canvasName: item.canvasName,
+    encryption: await sealValue(encryption, entry),
+  }
+}
+
+// Decrypt an item from an encrypted canvas if that canvas is unlocked this session
+async function openTrashItem(item: TrashItem): Promise<TrashItem> {
+  if (item.kind === 'canvas') return { ...item, canvas: await openCanvas(item.canvas) }
+  if (item.kind !== 'sealed') return item
+  try {
+    const entry = await openValue<NewNodeTrashItem>(item.encryption)
+    return { ...entry, id: item.id, deletedAt: item.deletedAt }
+  } catch {
+    return item
+  }
+}
+
+// List trashed items, newest first, optionally only those belonging to one canvas.
+// Items from encrypted canvases are only readable while the canvas is unlocked.
+export async function listTrash(canvasId?: string): Promise<TrashItem[]> {
+  try {
+    const items = (await get<TrashItem[]>(TRASH_KEY)) || []
+    const matching = canvasId
+      ? items.filter(item => (item.kind === 'canvas' ? item.canvas.id : item.canvasId) === canvasId)
+      : items
+    return await Promise.all(matching.map(openTrashItem))
+  } catch (error) {
+    console.error('Error loading trash:', error)
+    return []
+  }
+}
+
+// Put a deleted item in the trash. Pass the canvas encryption for links and groups
+// of an encrypted canvas so they are stored encrypted too.
+export async function addToTrash(entry: NewTrashItem, encryption?: CanvasEncryption): Promise<TrashItem> {
+  const item = { ...entry, id: generateId(), deletedAt: new Date().toISOString() } as TrashItem
+
+  try {
+    let stored: TrashItem = item
+    if (item.kind === 'canvas') {
+      stored = { ...item, canvas: await sealCanvas(item.canvas) }
+    } else if (encryption && item.kind !== 'sealed') {
+      stored = await sealTrashItem(item, encryption)
+    }
+    await writeTrash(items => [stored, ...items])
+    return item
+  } catch (error) {
+    console.error('Error moving item to trash:', error)
+    throw error
+  }
+}
+
+// Remove entries from the trash without restoring them
+async function removeFromTrash(ids: string[]): Promise<void> {
+  const removed = new Set(ids)
+  await writeTrash(items => items.filter(item => !removed.has(item.id)))
+}
+
+// Trashed canvases keep their snapshots until they are deleted for good
+async function purgeItems(items: TrashItem[]): Promise<void> {
+  await removeFromTrash(items.map(item => item.id))
+  await Promise.all(
+    items.filter(item => item.kind === 'canvas').map(item => deleteSnapshots(item.canvas.id))
+  )
+}
+
+/**
+ * Move a canvas to the trash
+ */
+export async function trashCanvas(id: string): Promise<TrashItem> {
+  const canvas = await getCanvas(id)
+  if (!canvas) {
+    throw new Error('Canvas not found')
+  }
+
+  const item = await addToTrash({ kind: 'canvas', canvas })
+  await deleteCanvas(id, { keepSnapshots: true })
+  return item
+}
+
+/**
+ * Mutations that put a trashed link or group back, along with
+ * the connections whose other end is still on the canvas
+ */
+export function getRestoreMutations(canvas: Canvas, item: LinkTrashItem | GroupTrashItem): CanvasMutation[] {
+  const restoredId = item.kind === 'link' ? item.link.id : item.group.id
+  const nodeIds = new Set([
+    restoredId,
+    ...canvas.links.map(link => link.id),
+    ...(canvas.groups || []).map(group => group.id),
+  ])
+
+  const mutations: CanvasMutation[] = [
+    item.kind === 'link' ? { type: 'addLink', link: item.link } : { type: 'addGroup', group: item.group },
+  ]
+
+  item.connections
+    .filter(conn => nodeIds.has(conn.sourceId) && nodeIds.has(conn.targetId))
+    .forEach(connection => mutations.push({ type: 'addConnection', connection }))
+
+  return mutations
+}
+
+/**
+ * Restore an item from the trash into storage. Links and groups go back into
+ * their canvas; use getRestoreMutations instead when that canvas is open in the editor.
+ */
+export async function restoreTrashItem(item: TrashItem): Promise<Canvas> {
+  let restored: Canvas
+
+  if (item.kind === 'canvas') {
+    // Another canvas may have taken the id since (e.g. through an import)
+    const existing = await getCanvas(item.canvas.id)
+    restored = await saveCanvas(existing ? copyCanvas(item.canvas, item.canvas.name) : item.canvas)
+  } else {
+    const canvas = await getCanvas(item.canvasId)
+    if (!canvas) {
+      throw new Error(`The canvas "${item.canvasName}" no longer exists`)
+    }
+    if (item.kind === 'sealed' || isCanvasLocked(canvas)) {
+      throw new Error(`Unlock "${item.canvasName}" to restore this item`)
+    }
+    restored = await saveCanvas(getRestoreMutations(canvas, item).reduce(applyCanvasMutation, canvas))
+  }
+
+  await removeFromTrash([item.id])
+  return restored
+}
+
+/**
+ * Re-encrypt the trashed links and groups of a canvas after its passphrase
+ * protection was added, changed or removed
+ */
+export async function reencryptTrash(canvasId: string, encryption?: CanvasEncryption): Promise<void> {
+  try {
+    const replacements = new Map<string, TrashItem>()
+    for (const item of await listTrash(canvasId)) {
+      if (item.kind === 'link' || item.kind === 'group') {
+        replacements.set(item.id, encryption ? await sealTrashItem(item, encryption) : item)
+      }
+    }
+    await writeTrash(items => items.map(item => replacements.get(item.id) ?? item))
+  } catch (error) {
+    console.error('Error re-encrypting trash:', error)
+    throw error
+  }
+}
+
+// Mark an item as restored by other means, e.g. through the editor
+export async function discardTrashItem(id: string): Promise<void> {
+  await removeFromTrash([id])
+}
+
+// Permanently delete a trashed item
+export async function deleteTrashItem(item: TrashItem): Promise<void> {
+  try {
+    await purgeItems([item])
+  } catch (error) {
+    console.error('Error deleting trash item:', error)
+    throw error
+  }
+}
+
+// Permanently delete everything in the trash, or everything belonging to one canvas
+export async function emptyTrash(canvasId?: string): Promise<void> {
+  try {
+    await purgeItems(await listTrash(canvasId))
+  } catch (error) {
+    console.error('Error emptying trash:', error)
+    throw error
+  }
+}
+
+export async function getTrashRetentionDays(): Promise<number> {
+  return (await get<number>(RETENTION_KEY)) ?? DEFAULT_TRASH_RETENTION_DAYS
+}
+
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await set(RETENTION_KEY, Math.max(1, Math.round(days)))
+  await purgeExpiredTrash()
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than the retention period
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  try {
+    const maxAge = (await getTrashRetentionDays()) * 24 * 60 * 60 * 1000
+    const now = Date.now()
+    const expired = (await listTrash()).filter(item => now - new Date(item.deletedAt).getTime() > maxAge)
+
+    if (expired.length > 0) {
+      await purgeItems(expired)
+    }
+  } catch (error) {
+    console.error('Error purging trash:', error)
+  }
+}
@@ -5,24 +5,53 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+export interface DebouncedFunction<T extends (...args: never[]) => unknown> {
+  (...args: Parameters<T>): void
+  // Run the pending call now, if there is one
+  flush: () => void
+  // Drop the pending call
+  cancel: () => void
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   wait: number
-): (...args: Parameters<T>) => void {
+): DebouncedFunction<T> {
   let timeout: NodeJS.Timeout | null = null
+  let pendingArgs: Parameters<T> | null = null
 
-  return function executedFunction(...args: Parameters<T>) {
-    const later = () => {
-      timeout = null
-      func(...args)
-    }
+  const later = () => {
+    const args = pendingArgs
+    timeout = null
+    pendingArgs = null
+    if (args) func(...args)
+  }
 
+  const executedFunction = function (...args: Parameters<T>) {
+    pendingArgs = args
     if (timeout) {
       clearTimeout(timeout)
     }
     timeout = setTimeout(later, wait)
+  } as DebouncedFunction<T>
+
+  executedFunction.flush = () => {
+    if (timeout) {
+      clearTimeout(timeout)
+      later()
+    }
   }
+
+  executedFunction.cancel = () => {
+    if (timeout) {
+      clearTimeout(timeout)
+    }
+    timeout = null
+    pendingArgs = null
+  }
+
+  return executedFunction
 }
 
 export function generateId(): string {
@@ -37,3 +66,55 @@ export function getDomainFromUrl(url: string): string {
     return ''
   }
 }
+
+// Only http(s) links are safe to open; javascript:, data: and file: URLs are not
+export function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Lowercase, dash-separated version of a name for use in file names
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'canvas'
+}
+
+// Escape text for use in HTML or XML content and attribute values
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Save generated contents as a file through the browser's download prompt
+export function downloadFile(contents: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// URL-safe base64 without padding, for binary data in URLs and JSON
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
@@ -1,6 +1,11 @@
 import { z } from 'zod'
+import { isWebUrl } from '@/lib/utils'
 
-export const urlSchema = z.string().url('Please enter a valid URL')
+// z.string().url() also accepts javascript:, data: and file: URLs
+export const urlSchema = z
+  .string()
+  .url('Please enter a valid URL')
+  .refine(isWebUrl, 'Only http and https links are supported')
 
 export const createLinkSchema = z.object({
   url: urlSchema,
@@ -36,3 +41,65 @@ export const createGroupSchema = z.object({
   height: z.number(),
   color: z.string().optional(),
 })
+
+export const viewportSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  zoom: z.number().positive(),
+})
+
+export const linkSchema = createLinkSchema.extend({
+  id: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  imageUrl: z.string().optional(),
+  favicon: z.string().optional(),
+  domain: z.string(),
+  width: z.number(),
+  height: z.number(),
+  zIndex: z.number(),
+  metadataFetchedAt: z.string().nullable().optional(),
+  needsMetadataRefresh: z.boolean().optional(),
+  addedAt: z.string().optional(),
+})
+
+export const connectionSchema = createConnectionSchema.extend({
+  id: z.string().min(1),
+})
+
+export const groupSchema = createGroupSchema.extend({
+  id: z.string().min(1),
+  color: z.string(),
+})
+
+export const canvasEncryptionSchema = z.object({
+  salt: z.string().min(1),
+  iterations: z.number().int().positive(),
+  iv: z.string().optional(),
+  data: z.string().optional(),
+})
+
+export const canvasSchema = createCanvasSchema.extend({
+  id: z.string().min(1),
+  links: z.array(linkSchema),
+  connections: z.array(connectionSchema),
+  groups: z.array(groupSchema),
+  viewport: viewportSchema,
+  revision: z.number().int().nonnegative(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  encryption: canvasEncryptionSchema.optional(),
+})
+
+// Request bodies for the canvas REST API
+export const updateCanvasSchema = createCanvasSchema.partial()
+
+export const addLinkSchema = createLinkSchema.partial({ x: true, y: true })
+
+export const updateLinkSchema = linkSchema.omit({ id: true }).partial()
+
+export const updateConnectionSchema = createConnectionSchema.omit({ sourceId: true, targetId: true })
+
+export const addGroupSchema = createGroupSchema.partial({ x: true, y: true, width: true, height: true })
+
+export const updateGroupSchema = createGroupSchema.partial()
@@ -1,11 +1,50 @@
 import { create } from 'zustand'
-import type { Canvas, Link, Connection, Group } from '@/types'
-import { saveCanvas, getCanvas } from '@/lib/storage'
+import type { Canvas, Link, Connection, Group, LinkTrashItem, GroupTrashItem } from '@/types'
+import { saveCanvas, getCanvas, RevisionConflictError } from '@/lib/storage'
 import { debounce } from '@/lib/utils'
+import { applyCanvasMutation, diffCanvases, type CanvasMutation } from '@/lib/canvas-mutations'
+import { mergeCanvases } from '@/lib/canvas-merge'
+import { maybeCreateAutoSnapshot, reencryptSnapshots } from '@/lib/snapshots'
+import { addToTrash, discardTrashItem, getRestoreMutations, reencryptTrash } from '@/lib/trash'
+import {
+  createCanvasEncryption,
+  forgetCanvasKey,
+  isCanvasLocked,
+  unlockCanvas,
+} from '@/lib/encryption'
+import { broadcastTabMessage, subscribeToTabMessages, TAB_ID } from '@/lib/tab-sync'
+import {
+  clearLocalSessionCopy,
+  isCollaborationEnabled,
+  joinCanvasSession,
+  saveLocalCollaborator,
+  type CollaborationSession,
+  type CollaborationStatus,
+  type Collaborator,
+  type CollaboratorInfo,
+} from '@/lib/collaboration'
+
+export type ConflictStrategy = 'reload' | 'overwrite' | 'merge'
+
+export type SaveStatus = 'saved' | 'saving' | 'failed'
 
 interface CanvasState {
   // Current canvas data
   canvas: Canvas | null
+  // An encrypted canvas waiting for its passphrase; `canvas` stays empty until it is unlocked
+  lockedCanvas: Canvas | null
+
+  // Last version read from or written to storage; its revision is the base for the next save
+  baseCanvas: Canvas | null
+  // Set when a save found a newer revision in storage; saving pauses until resolved
+  saveConflict: { remote: Canvas } | null
+  // Whether local changes have reached storage, and why the last write failed
+  saveStatus: SaveStatus
+  saveError: string | null
+
+  // Real-time collaboration, when enabled for this deployment
+  collaborationStatus: CollaborationStatus | null
+  collaborators: Collaborator[]
 
   // UI state
   selectedNodeId: string | null
@@ -18,9 +57,17 @@ interface CanvasState {
   createCanvas: (canvas: Canvas) => Promise<void>
   updateCanvas: (updates: Partial<Canvas>) => void
 
+  // Passphrase protection
+  unlockCanvas: (passphrase: string) => Promise<void>
+  lockCanvas: () => Promise<void>
+  // Protect the canvas with a passphrase, or remove protection with null
+  setCanvasPassphrase: (passphrase: string | null) => Promise<void>
+
   // Link actions
   addLink: (link: Link) => void
   updateLink: (id: string, updates: Partial<Link>) => void
+  // Fill in fetched metadata without adding an undo step
+  updateLinkMetadata: (id: string, updates: Partial<Link>) => void
   deleteLink: (id: string) => void
 
   // Connection actions
@@ -35,6 +82,28 @@ interface CanvasState {
   // Viewport actions
   setViewport: (x: number, y: number, zoom: number) => void
 
+  // Swap in another version of the content (e.g. a snapshot) as one undoable step
+  replaceContent: (canvas: Canvas) => void
+  // Add imported links, groups and connections as one undoable step
+  addItems: (items: Pick<Canvas, 'links' | 'connections' | 'groups'>) => void
+
+  // Put a trashed link or group of this canvas back as one undoable step
+  restoreFromTrash: (item: LinkTrashItem | GroupTrashItem) => Promise<void>
+
+  // History (viewport changes are not recorded)
+  past: Canvas[]
+  future: Canvas[]
+  undo: () => void
+  redo: () => void
+  // Group every mutation until endHistoryBatch into a single undo step
+  beginHistoryBatch: () => void
+  endHistoryBatch: () => void
+
+  // Presence shared with collaborators
+  setCursor: (cursor: { x: number; y: number } | null) => void
+  setSelection: (nodeIds: string[]) => void
+  setCollaboratorInfo: (user: CollaboratorInfo) => void
+
   // UI actions
   setSelectedNode: (id: string | null) => void
   setIsDragging: (isDragging: boolean) => void
@@ -42,182 +111,538 @@ interface CanvasState {
 
   // Persistence
   saveToStorage: () => Promise<void>
+  // Write any change still waiting for the debounce, e.g. before the page goes away
+  flushPendingSave: () => Promise<void>
+  retrySave: () => Promise<void>
+  resolveSaveConflict: (strategy: ConflictStrategy) => Promise<void>
 }
 
-// Debounced save function
-const debouncedSave = debounce(async (canvas: Canvas) => {
-  if (canvas) {
-    await saveCanvas(canvas)
+// Maximum number of undo steps kept per canvas
+const HISTORY_LIMIT = 100
+
+// Active history batch, if any; only its first mutation is recorded
+let historyBatch: { recorded: boolean } | null = null
+
+// Unsubscribe handle for cross-tab sync, set once the first canvas loads
+let stopTabSync: (() => void) | null = null
+
+// Shared document session for the open canvas
+let collaboration: CollaborationSession | null = null
+
+// State for a canvas that was just read from or written to storage
+function freshCanvasState(canvas: Canvas): Partial<CanvasState> {
+  return {
+    canvas,
+    lockedCanvas: null,
+    baseCanvas: canvas,
+    saveConflict: null,
+    saveStatus: 'saved',
+    saveError: null,
+    past: [],
+    future: [],
   }
-}, 500)
-
-export const useCanvasStore = create<CanvasState>((set, get) => ({
-  canvas: null,
-  selectedNodeId: null,
-  isDragging: false,
-  isConnecting: false,
-  connectionSource: null,
-
-  loadCanvas: async (id: string) => {
-    const canvas = await getCanvas(id)
-    if (canvas) {
-      set({ canvas })
-    }
-  },
-
-  createCanvas: async (canvas: Canvas) => {
-    await saveCanvas(canvas)
-    set({ canvas })
-  },
-
-  updateCanvas: (updates: Partial<Canvas>) => {
-    const { canvas } = get()
-    if (!canvas) return
-
-    const updatedCanvas = { ...canvas, ...updates }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
-
-  addLink: (link: Link) => {
-    console.log('🔗 New link node added:', link)
-    
-    const { canvas } = get()
-    if (!canvas) {
-      console.log('❌ No canvas found - link not added')
-      return
-    }
-
-    const updatedCanvas = {
-      ...canvas,
-      links: [...canvas.links, link],
-    }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
-
-  updateLink: (id: string, updates: Partial<Link>) => {
-    const { canvas } = get()
-    if (!canvas) return
-
-    const updatedCanvas = {
-      ...canvas,
-      links: canvas.links.map(link =>
-        link.id === id ? { ...link, ...updates } : link
-      ),
-    }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
-
-  deleteLink: (id: string) => {
-    const { canvas } = get()
-    if (!canvas) return
-
-    const updatedCanvas = {
-      ...canvas,
-      links: canvas.links.filter(link => link.id !== id),
-      connections: canvas.connections.filter(
-        conn => conn.sourceId !== id && conn.targetId !== id
-      ),
-    }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
-
-  addConnection: (connection: Connection) => {
-    const { canvas } = get()
-    if (!canvas) return
-
-    const updatedCanvas = {
-      ...canvas,
-      connections: [...canvas.connections, connection],
-    }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
-
-  deleteConnection: (id: string) => {
-    const { canvas } = get()
-    if (!canvas) return
+}
 
-    const updatedCanvas = {
-      ...canvas,
-      connections: canvas.connections.filter(conn => conn.id !== id),
+export const useCanvasStore = create<CanvasState>((set, get) => {
+  // Set by local changes, cleared once a write that includes them starts
+  let hasUnsavedChanges = false
+
+  // Write the current canvas on top of the base revision it was derived from
+  const writeCanvas = async (options: { force?: boolean } = {}) => {
+    const { canvas, baseCanvas, saveConflict } = get()
+    if (!canvas || saveConflict) return
+
+    hasUnsavedChanges = false
+    set({ saveStatus: 'saving' })
+
+    try {
+      // With collaboration the shared document is the source of truth, so saves never conflict
+      const saved = await saveCanvas(
+        { ...canvas, revision: baseCanvas?.revision ?? canvas.revision },
+        collaboration ? { ...options, force: true } : options
+      )
+      if (get().canvas?.id === saved.id) {
+        set(hasUnsavedChanges ? { baseCanvas: saved } : { baseCanvas: saved, saveStatus: 'saved', saveError: null })
+      }
+      broadcastTabMessage({ type: 'canvas-saved', canvasId: saved.id, canvas: saved })
+      maybeCreateAutoSnapshot(saved).catch(error => {
+        console.error('Error taking automatic snapshot:', error)
+      })
+    } catch (error) {
+      if (error instanceof RevisionConflictError && get().canvas?.id === canvas.id) {
+        console.warn(error.message)
+        set({ saveConflict: { remote: error.stored } })
+        return
+      }
+
+      // Keep the changes marked unsaved so the next flush or retry writes them
+      hasUnsavedChanges = true
+      if (get().canvas?.id === canvas.id) {
+        set({ saveStatus: 'failed', saveError: error instanceof Error ? error.message : String(error) })
+      }
+      throw error
     }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
+  }
 
-  addGroup: (group: Group) => {
-    const { canvas } = get()
-    if (!canvas) return
+  // Saves run one at a time so each builds on the revision the previous one wrote
+  let saveQueue: Promise<void> = Promise.resolve()
+  const queueSave = (options: { force?: boolean } = {}) => {
+    const next = saveQueue.then(() => writeCanvas(options))
+    saveQueue = next.catch(() => undefined)
+    return next
+  }
 
-    const updatedCanvas = {
-      ...canvas,
-      groups: [...(canvas.groups || []), group],
+  // Debounced save function
+  const debouncedSave = debounce(() => {
+    queueSave().catch(() => undefined)
+  }, 500)
+
+  // Save a local change and replay it in other tabs showing this canvas
+  const persist = (canvas: Canvas, mutation: CanvasMutation) => {
+    hasUnsavedChanges = true
+    set({ saveStatus: 'saving' })
+    debouncedSave()
+    if (mutation.type !== 'setViewport') {
+      broadcastTabMessage({ type: 'mutation', canvasId: canvas.id, mutation })
+      collaboration?.push(canvas)
     }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
+  }
 
-  updateGroup: (id: string, updates: Partial<Group>) => {
-    const { canvas } = get()
+  // Apply a local content change, recording the previous canvas for undo
+  const dispatch = (mutation: CanvasMutation) => {
+    const { canvas, past } = get()
     if (!canvas) return
 
-    const updatedCanvas = {
-      ...canvas,
-      groups: (canvas.groups || []).map(group =>
-        group.id === id ? { ...group, ...updates } : group
-      ),
+    const updatedCanvas = applyCanvasMutation(canvas, mutation)
+    const shouldRecord = !historyBatch?.recorded
+    if (historyBatch) {
+      historyBatch.recorded = true
     }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
-
-  deleteGroup: (id: string) => {
-    const { canvas } = get()
-    if (!canvas) return
 
-    const updatedCanvas = {
-      ...canvas,
-      groups: (canvas.groups || []).filter(group => group.id !== id),
-    }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
+    set({
+      canvas: updatedCanvas,
+      past: shouldRecord ? [...past, canvas].slice(-HISTORY_LIMIT) : past,
+      future: [],
+    })
+    persist(updatedCanvas, mutation)
+  }
 
-  setViewport: (x: number, y: number, zoom: number) => {
-    const { canvas } = get()
+  // Apply a change made in another tab, which also takes care of saving it
+  const applyRemoteMutation = (mutation: CanvasMutation) => {
+    const { canvas, past, future } = get()
     if (!canvas) return
 
-    const updatedCanvas = {
-      ...canvas,
-      viewport: { x, y, zoom },
+    if (mutation.type === 'replaceContent') {
+      set({ canvas: applyCanvasMutation(canvas, mutation), past: [], future: [] })
+      return
     }
-    set({ canvas: updatedCanvas })
-    debouncedSave(updatedCanvas)
-  },
 
-  setSelectedNode: (id: string | null) => {
-    set({ selectedNodeId: id })
-  },
+    // Rebase local history so undo never reverts another tab's work
+    set({
+      canvas: applyCanvasMutation(canvas, mutation),
+      past: past.map(snapshot => applyCanvasMutation(snapshot, mutation)),
+      future: future.map(snapshot => applyCanvasMutation(snapshot, mutation)),
+    })
+  }
 
-  setIsDragging: (isDragging: boolean) => {
-    set({ isDragging })
-  },
+  const startTabSync = () => {
+    if (stopTabSync) return
+
+    stopTabSync = subscribeToTabMessages((message, senderId) => {
+      const { canvas, past, future, saveConflict } = get()
+      if (!('canvasId' in message) || canvas?.id !== message.canvasId) return
+
+      switch (message.type) {
+        case 'mutation':
+          applyRemoteMutation(message.mutation)
+          // Another tab protected the canvas with a passphrase this tab doesn't know
+          if (get().canvas && isCanvasLocked(get().canvas!)) {
+            get().loadCanvas(canvas.id)
+          }
+          break
+        case 'request-state':
+          broadcastTabMessage({ type: 'state', canvasId: canvas.id, canvas, targetId: senderId })
+          break
+        case 'state':
+          // Only adopt another tab's copy before any local edits were made
+          if (message.targetId === TAB_ID && past.length === 0 && future.length === 0) {
+            applyRemoteMutation({ type: 'replaceContent', canvas: message.canvas })
+          }
+          break
+        case 'canvas-saved':
+          // This tab already replayed the other tab's edits, so its save is our new base
+          if (!saveConflict) {
+            set({ baseCanvas: message.canvas })
+          }
+          break
+      }
+    })
+  }
 
-  setIsConnecting: (isConnecting: boolean, sourceId?: string) => {
-    set({
-      isConnecting,
-      connectionSource: sourceId || null,
+  // Join the shared document for a canvas; collaborators' edits apply like another tab's
+  const startCollaboration = (canvas: Canvas) => {
+    collaboration?.destroy()
+    collaboration = null
+    set({ collaborationStatus: null, collaborators: [] })
+    // The shared document is not encrypted, so protected canvases are never shared live
+    if (!isCollaborationEnabled() || canvas.encryption) return
+
+    collaboration = joinCanvasSession(canvas, {
+      onRemoteChange: remote => {
+        const current = get().canvas
+        if (current?.id !== remote.id) return
+
+        const mutations = diffCanvases(current, remote)
+        if (mutations.length === 0) return
+        mutations.forEach(mutation => applyRemoteMutation(mutation))
+
+        // Keep a local copy of others' work
+        hasUnsavedChanges = true
+        set({ saveStatus: 'saving' })
+        debouncedSave()
+      },
+      onCollaboratorsChange: collaborators => set({ collaborators }),
+      onStatusChange: collaborationStatus => set({ collaborationStatus }),
     })
-  },
+  }
 
-  saveToStorage: async () => {
-    const { canvas } = get()
-    if (canvas) {
-      await saveCanvas(canvas)
-    }
-  },
-}))
+  return {
+    canvas: null,
+    lockedCanvas: null,
+    baseCanvas: null,
+    saveConflict: null,
+    saveStatus: 'saved',
+    saveError: null,
+    collaborationStatus: null,
+    collaborators: [],
+    selectedNodeId: null,
+    isDragging: false,
+    isConnecting: false,
+    connectionSource: null,
+    past: [],
+    future: [],
+
+    loadCanvas: async (id: string) => {
+      // Don't lose edits to the canvas being left
+      await get().flushPendingSave()
+
+      const canvas = await getCanvas(id)
+      if (canvas && isCanvasLocked(canvas)) {
+        historyBatch = null
+        hasUnsavedChanges = false
+        collaboration?.destroy()
+        collaboration = null
+        set({ ...freshCanvasState(canvas), canvas: null, baseCanvas: null, lockedCanvas: canvas })
+        return
+      }
+
+      if (canvas) {
+        historyBatch = null
+        hasUnsavedChanges = false
+        set(freshCanvasState(canvas))
+        startTabSync()
+        startCollaboration(canvas)
+        // Another tab may hold changes that are not saved yet
+        broadcastTabMessage({ type: 'request-state', canvasId: id })
+      }
+    },
+
+    createCanvas: async (canvas: Canvas) => {
+      await get().flushPendingSave()
+
+      const saved = await saveCanvas(canvas)
+      historyBatch = null
+      hasUnsavedChanges = false
+      set(freshCanvasState(saved))
+      startTabSync()
+      startCollaboration(saved)
+    },
+
+    updateCanvas: (updates: Partial<Canvas>) => {
+      dispatch({ type: 'updateCanvas', updates })
+    },
+
+    unlockCanvas: async (passphrase: string) => {
+      const { lockedCanvas } = get()
+      if (!lockedCanvas) return
+
+      const canvas = await unlockCanvas(lockedCanvas, passphrase)
+      if (get().lockedCanvas?.id !== canvas.id) return
+
+      set(freshCanvasState(canvas))
+      startTabSync()
+      broadcastTabMessage({ type: 'request-state', canvasId: canvas.id })
+    },
+
+    lockCanvas: async () => {
+      const { canvas } = get()
+      if (!canvas?.encryption) return
+
+      await get().flushPendingSave()
+      forgetCanvasKey(canvas)
+      await get().loadCanvas(canvas.id)
+    },
+
+    setCanvasPassphrase: async (passphrase: string | null) => {
+      const { canvas } = get()
+      if (!canvas) return
+
+      const encryption = passphrase ? await createCanvasEncryption(passphrase) : undefined
+
+      // Like the viewport, protection is not part of undo history
+      const mutation: CanvasMutation = { type: 'updateCanvas', updates: { encryption } }
+      const updatedCanvas = applyCanvasMutation(canvas, mutation)
+      set({ canvas: updatedCanvas })
+      persist(updatedCanvas, mutation)
+      await get().flushPendingSave()
+
+      // Older versions and deleted items must not stay readable without the passphrase
+      await Promise.all([
+        reencryptSnapshots(canvas.id, encryption),
+        reencryptTrash(canvas.id, encryption),
+      ])
+      forgetCanvasKey(canvas)
+      startCollaboration(updatedCanvas)
+      if (encryption) {
+        await clearLocalSessionCopy(canvas.id)
+      }
+    },
+
+    addLink: (link: Link) => {
+      console.log('🔗 New link node added:', link)
+
+      if (!get().canvas) {
+        console.log('❌ No canvas found - link not added')
+        return
+      }
+
+      dispatch({ type: 'addLink', link })
+    },
+
+    updateLink: (id: string, updates: Partial<Link>) => {
+      dispatch({ type: 'updateLink', id, updates })
+    },
+
+    updateLinkMetadata: (id: string, updates: Partial<Link>) => {
+      const { canvas, past, future } = get()
+      if (!canvas) return
+
+      // Background work, not an edit: history is rebased like for another tab's
+      // change, so undo neither steps through it nor loses it
+      const mutation: CanvasMutation = { type: 'updateLink', id, updates }
+      const updatedCanvas = applyCanvasMutation(canvas, mutation)
+      set({
+        canvas: updatedCanvas,
+        past: past.map(snapshot => applyCanvasMutation(snapshot, mutation)),
+        future: future.map(snapshot => applyCanvasMutation(snapshot, mutation)),
+      })
+      persist(updatedCanvas, mutation)
+    },
+
+    deleteLink: (id: string) => {
+      const { canvas } = get()
+      const link = canvas?.links.find(l => l.id === id)
+      if (canvas && link) {
+        addToTrash({
+          kind: 'link',
+          canvasId: canvas.id,
+          canvasName: canvas.name,
+          link,
+          connections: canvas.connections.filter(conn => conn.sourceId === id || conn.targetId === id),
+        }, canvas.encryption).catch(() => undefined)
+      }
+
+      dispatch({ type: 'deleteLink', id })
+    },
+
+    addConnection: (connection: Connection) => {
+      dispatch({ type: 'addConnection', connection })
+    },
+
+    deleteConnection: (id: string) => {
+      dispatch({ type: 'deleteConnection', id })
+    },
+
+    addGroup: (group: Group) => {
+      dispatch({ type: 'addGroup', group })
+    },
+
+    updateGroup: (id: string, updates: Partial<Group>) => {
+      dispatch({ type: 'updateGroup', id, updates })
+    },
+
+    deleteGroup: (id: string) => {
+      const { canvas } = get()
+      const group = canvas?.groups?.find(g => g.id === id)
+      if (canvas && group) {
+        addToTrash({
+          kind: 'group',
+          canvasId: canvas.id,
+          canvasName: canvas.name,
+          group,
+          connections: canvas.connections.filter(conn => conn.sourceId === id || conn.targetId === id),
+        }, canvas.encryption).catch(() => undefined)
+      }
+
+      dispatch({ type: 'deleteGroup', id })
+    },
+
+    setViewport: (x: number, y: number, zoom: number) => {
+      const { canvas } = get()
+      if (!canvas) return
+
+      // Viewport changes are saved but not part of undo history
+      const mutation: CanvasMutation = { type: 'setViewport', viewport: { x, y, zoom } }
+      const updatedCanvas = applyCanvasMutation(canvas, mutation)
+      set({ canvas: updatedCanvas })
+      persist(updatedCanvas, mutation)
+    },
+
+    replaceContent: (canvas: Canvas) => {
+      dispatch({ type: 'replaceContent', canvas })
+    },
+
+    addItems: (items: Pick<Canvas, 'links' | 'connections' | 'groups'>) => {
+      if (!get().canvas) return
+
+      historyBatch = { recorded: false }
+      items.groups?.forEach(group => dispatch({ type: 'addGroup', group }))
+      items.links.forEach(link => dispatch({ type: 'addLink', link }))
+      items.connections.forEach(connection => dispatch({ type: 'addConnection', connection }))
+      historyBatch = null
+    },
+
+    restoreFromTrash: async (item: LinkTrashItem | GroupTrashItem) => {
+      const { canvas } = get()
+      if (!canvas || canvas.id !== item.canvasId) return
+
+      historyBatch = { recorded: false }
+      getRestoreMutations(canvas, item).forEach(mutation => dispatch(mutation))
+      historyBatch = null
+
+      await discardTrashItem(item.id)
+    },
+
+    undo: () => {
+      const { canvas, past, future } = get()
+      if (!canvas || past.length === 0) return
+
+      // Keep the current view; only content is rewound
+      const mutation: CanvasMutation = { type: 'replaceContent', canvas: past[past.length - 1] }
+      const previous = applyCanvasMutation(canvas, mutation)
+      historyBatch = null
+      set({
+        canvas: previous,
+        past: past.slice(0, -1),
+        future: [canvas, ...future].slice(0, HISTORY_LIMIT),
+      })
+      persist(previous, mutation)
+    },
+
+    redo: () => {
+      const { canvas, past, future } = get()
+      if (!canvas || future.length === 0) return
+
+      const mutation: CanvasMutation = { type: 'replaceContent', canvas: future[0] }
+      const next = applyCanvasMutation(canvas, mutation)
+      historyBatch = null
+      set({
+        canvas: next,
+        past: [...past, canvas].slice(-HISTORY_LIMIT),
+        future: future.slice(1),
+      })
+      persist(next, mutation)
+    },
+
+    beginHistoryBatch: () => {
+      historyBatch = { recorded: false }
+    },
+
+    endHistoryBatch: () => {
+      historyBatch = null
+    },
+
+    setCursor: (cursor: { x: number; y: number } | null) => {
+      collaboration?.setCursor(cursor)
+    },
+
+    setSelection: (nodeIds: string[]) => {
+      collaboration?.setSelection(nodeIds)
+    },
+
+    setCollaboratorInfo: (user: CollaboratorInfo) => {
+      saveLocalCollaborator(user)
+      collaboration?.setUser(user)
+    },
+
+    setSelectedNode: (id: string | null) => {
+      set({ selectedNodeId: id })
+    },
+
+    setIsDragging: (isDragging: boolean) => {
+      set({ isDragging })
+    },
+
+    setIsConnecting: (isConnecting: boolean, sourceId?: string) => {
+      set({
+        isConnecting,
+        connectionSource: sourceId || null,
+      })
+    },
+
+    saveToStorage: async () => {
+      await queueSave()
+    },
+
+    flushPendingSave: async () => {
+      debouncedSave.flush()
+      await saveQueue
+      // A failed write leaves its changes pending; try once more
+      if (hasUnsavedChanges && !get().saveConflict) {
+        await queueSave().catch(() => undefined)
+      }
+    },
+
+    retrySave: async () => {
+      debouncedSave.cancel()
+      await queueSave().catch(() => undefined)
+    },
+
+    resolveSaveConflict: async (strategy: ConflictStrategy) => {
+      const { canvas, baseCanvas, saveConflict, past } = get()
+      if (!canvas || !saveConflict) return
+
+      const { remote } = saveConflict
+
+      if (strategy === 'reload') {
+        historyBatch = null
+        hasUnsavedChanges = false
+        set(freshCanvasState(remote))
+        return
+      }
+
+      if (strategy === 'overwrite') {
+        set({ saveConflict: null })
+        await queueSave({ force: true })
+        return
+      }
+
+      // Merge: rebase local edits onto the stored version, as one undoable step
+      const merged = mergeCanvases(baseCanvas || remote, canvas, remote)
+      historyBatch = null
+      set({
+        canvas: merged,
+        baseCanvas: remote,
+        saveConflict: null,
+        past: [...past, canvas].slice(-HISTORY_LIMIT),
+        future: [],
+      })
+      broadcastTabMessage({
+        type: 'mutation',
+        canvasId: merged.id,
+        mutation: { type: 'replaceContent', canvas: merged },
+      })
+      await queueSave()
+    },
+  }
+})
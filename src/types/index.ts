@@ -10,6 +10,32 @@ export interface Canvas {
     y: number
     zoom: number
   }
+  // Incremented on every save; used to detect concurrent writes
+  revision: number
+  createdAt: string
+  updatedAt: string
+  // Set on passphrase-protected canvases
+  encryption?: CanvasEncryption
+}
+
+// Passphrase protection for a canvas. While stored, the content fields are empty
+// and the content is in `data`; unlocked canvases carry only the key parameters.
+export interface CanvasEncryption {
+  // PBKDF2 salt and iteration count for deriving the AES-GCM key
+  salt: string
+  iterations: number
+  iv?: string
+  data?: string
+}
+
+// Lightweight per-canvas entry kept in the canvas index for list views
+export interface CanvasSummary {
+  id: string
+  name: string
+  description?: string
+  linkCount: number
+  connectionCount: number
+  encrypted?: boolean
   createdAt: string
   updatedAt: string
 }
@@ -29,6 +55,8 @@ export interface Link {
   zIndex: number
   metadataFetchedAt?: string | null
   needsMetadataRefresh?: boolean
+  // When the link was first saved, if it came from another tool (e.g. a bookmark's ADD_DATE)
+  addedAt?: string
 }
 
 export interface Connection {
@@ -58,3 +86,63 @@ export interface LinkMetadata {
   favicon?: string
   domain: string
 }
+
+// Shape of the JSON backup produced by exportData
+export interface ExportData {
+  version: string
+  schemaVersion: number
+  exportedAt: string
+  // Single-canvas files import next to existing canvases and never replace them
+  scope?: 'all' | 'canvas'
+  currentCanvasId: string | null
+  canvases: Canvas[]
+}
+
+// Saved copy of a canvas that can be previewed and restored later
+export interface CanvasSnapshot {
+  id: string
+  canvasId: string
+  name: string
+  // Manual snapshots are kept until deleted; automatic ones are pruned
+  kind: 'manual' | 'auto'
+  createdAt: string
+  canvas: Canvas
+}
+
+// Soft-deleted items, restorable until purged
+interface TrashItemBase {
+  id: string
+  deletedAt: string
+}
+
+export interface CanvasTrashItem extends TrashItemBase {
+  kind: 'canvas'
+  canvas: Canvas
+}
+
+export interface LinkTrashItem extends TrashItemBase {
+  kind: 'link'
+  canvasId: string
+  canvasName: string
+  link: Link
+  // Connections removed together with the link
+  connections: Connection[]
+}
+
+export interface GroupTrashItem extends TrashItemBase {
+  kind: 'group'
+  canvasId: string
+  canvasName: string
+  group: Group
+  connections: Connection[]
+}
+
+// A link or group deleted from an encrypted canvas, kept encrypted until that canvas is unlocked
+export interface SealedTrashItem extends TrashItemBase {
+  kind: 'sealed'
+  canvasId: string
+  canvasName: string
+  encryption: CanvasEncryption
+}
+
+export type TrashItem = CanvasTrashItem | LinkTrashItem | GroupTrashItem | SealedTrashItem